@@ -8,6 +8,17 @@ export const INIT_CODE_HASH = '0x56cf930c850ce212aa057e794ef994327f2cb22ca6f87b1
 // exports for internal consumption
 export const ZERO = JSBI.BigInt(0)
 export const ONE = JSBI.BigInt(1)
+export const NEGATIVE_ONE = JSBI.BigInt(-1)
+
+// used in fixed point math
+export const Q96 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(96))
+export const Q128 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(128))
+export const Q160 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(160))
+export const Q192 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(192))
+export const Q256 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(256))
+
+export const MaxUint128 = JSBI.subtract(Q128, ONE)
+export const MaxUint160 = JSBI.subtract(Q160, ONE)
 
 export enum FeeAmount {
   LOW = 500,
@@ -0,0 +1,51 @@
+import { ChainId, Token, TokenAmount } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { FeeAmount, Q96 } from '../constants'
+import { makeFullRangeTickList } from '../testUtils'
+import { ExecutionContext } from './executionContext'
+import { Pool } from './pool'
+
+describe('ExecutionContext', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const liquidity = JSBI.BigInt('1000000000000000000')
+  const ticks = makeFullRangeTickList(FeeAmount.MEDIUM, liquidity)
+  const pool = new Pool(token0, token1, FeeAmount.MEDIUM, Q96, liquidity, ticks)
+  const otherPool = new Pool(token0, token1, FeeAmount.LOW, Q96, liquidity, ticks)
+  const [, poolAfter] = pool.getOutputAmount(new TokenAmount(token0, 1000000))
+
+  describe('#getPool', () => {
+    it('returns the pool if it was not swapped through', () => {
+      expect(new ExecutionContext().getPool(pool)).toBe(pool)
+      expect(new ExecutionContext([poolAfter]).getPool(otherPool)).toBe(otherPool)
+    })
+
+    it('returns the latest state of the same pool', () => {
+      const samePool = new Pool(token1, token0, FeeAmount.MEDIUM, Q96, liquidity, ticks)
+      expect(new ExecutionContext([poolAfter]).getPool(samePool)).toBe(poolAfter)
+    })
+
+    it('does not compute the pool address', () => {
+      const getAddress = jest.spyOn(Pool, 'getAddress')
+      new ExecutionContext([poolAfter]).getPool(pool)
+      expect(getAddress).not.toHaveBeenCalled()
+      getAddress.mockRestore()
+    })
+  })
+
+  describe('#withPools', () => {
+    it('replaces the state of the given pools', () => {
+      const context = new ExecutionContext([pool, otherPool])
+      const next = context.withPools([poolAfter])
+      expect(next.getPool(pool)).toBe(poolAfter)
+      expect(next.getPool(otherPool)).toBe(otherPool)
+      expect(next.pools).toHaveLength(2)
+    })
+
+    it('does not change the context', () => {
+      const context = new ExecutionContext([pool])
+      context.withPools([poolAfter])
+      expect(context.getPool(pool)).toBe(pool)
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { Pool } from './pool'
+
+/**
+ * The state of the pools after a sequence of swaps, e.g. the hops of a route or the trades in a batch, so that each
+ * swap is executed against the pool state left behind by the swaps before it.
+ */
+export class ExecutionContext {
+  // the latest state of each pool that was swapped through, by tokens and fee
+  private readonly poolStates: Map<string, Pool>
+
+  // pools are identified by their tokens and fee, which determine their address, so that different instances of the
+  // same pool share their state without computing the address on every lookup
+  private static key(pool: Pool): string {
+    return `${pool.token0.address}-${pool.token1.address}-${pool.feeLevel}`
+  }
+
+  /**
+   * Constructs a context from the current state of the given pools
+   * @param pools the pools whose state differs from the pools that will be passed in, if any
+   */
+  public constructor(pools: Pool[] = []) {
+    this.poolStates = new Map(pools.map(pool => [ExecutionContext.key(pool), pool]))
+  }
+
+  /**
+   * The pools whose state is tracked by this context.
+   */
+  public get pools(): Pool[] {
+    return Array.from(this.poolStates.values())
+  }
+
+  /**
+   * Returns the latest state of the given pool, or the pool itself if it was not swapped through
+   * @param pool the pool to look up
+   */
+  public getPool(pool: Pool): Pool {
+    return this.poolStates.get(ExecutionContext.key(pool)) ?? pool
+  }
+
+  /**
+   * Returns a new context in which the given pools replace the state of the same pools in this context
+   * @param pools the updated pools
+   */
+  public withPools(pools: Pool[]): ExecutionContext {
+    return new ExecutionContext([...this.pools, ...pools])
+  }
+}
@@ -1,3 +1,12 @@
+export * from './executionContext'
+export * from './observation'
+export * from './oracle'
 export * from './pool'
+export * from './position'
 export * from './route'
+export * from './splitTrade'
+export * from './tick'
+export * from './tickDataProvider'
+export * from './tickList'
+export * from './tickListDataProvider'
 export * from './trade'
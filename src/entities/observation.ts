@@ -0,0 +1,102 @@
+import { BigintIsh } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { ONE, Q160, ZERO } from '../constants'
+
+interface ObservationConstructorArgs {
+  blockTimestamp: number
+  tickCumulative: BigintIsh
+  secondsPerLiquidityCumulativeX128: BigintIsh
+  initialized: boolean
+}
+
+/**
+ * The JSON representation of an observation, with all the JSBI values encoded as decimal strings
+ */
+export interface ObservationJSON {
+  blockTimestamp: number
+  tickCumulative: string
+  secondsPerLiquidityCumulativeX128: string
+  initialized: boolean
+}
+
+const MAX_UINT32 = 2 ** 32 - 1
+
+/**
+ * An observation of the pool oracle, i.e. the accumulators of the pool as of a block timestamp
+ */
+export class Observation {
+  /**
+   * The block timestamp of the observation, as a uint32 that wraps around every 2**32 seconds
+   */
+  public readonly blockTimestamp: number
+  /**
+   * The tick multiplied by the seconds elapsed, summed since the pool was first initialized
+   */
+  public readonly tickCumulative: JSBI
+  /**
+   * The seconds elapsed divided by the in range liquidity, as a Q128.128, summed since the pool was first initialized
+   */
+  public readonly secondsPerLiquidityCumulativeX128: JSBI
+  /**
+   * Whether the observation has been written, i.e. is not an empty slot of the observations array
+   */
+  public readonly initialized: boolean
+
+  /**
+   * Constructs an observation from its JSON representation, validating it like the constructor
+   * @param json the JSON representation of the observation
+   */
+  public static fromJSON(json: ObservationJSON): Observation {
+    return new Observation(json)
+  }
+
+  constructor({
+    blockTimestamp,
+    tickCumulative,
+    secondsPerLiquidityCumulativeX128,
+    initialized
+  }: ObservationConstructorArgs) {
+    invariant(Number.isInteger(blockTimestamp) && blockTimestamp >= 0 && blockTimestamp <= MAX_UINT32, 'TIMESTAMP')
+    this.blockTimestamp = blockTimestamp
+    this.tickCumulative = JSBI.BigInt(tickCumulative)
+    this.secondsPerLiquidityCumulativeX128 = JSBI.BigInt(secondsPerLiquidityCumulativeX128)
+    this.initialized = initialized
+  }
+
+  /**
+   * Returns the observation that would be written at a later timestamp, given the tick and liquidity in between,
+   * mirroring Oracle#transform
+   * @param blockTimestamp the timestamp of the new observation
+   * @param tick the active tick since this observation
+   * @param liquidity the in range liquidity since this observation
+   */
+  public transform(blockTimestamp: number, tick: number, liquidity: JSBI): Observation {
+    const delta = JSBI.BigInt((blockTimestamp - this.blockTimestamp) >>> 0)
+    return new Observation({
+      blockTimestamp,
+      tickCumulative: JSBI.add(this.tickCumulative, JSBI.multiply(JSBI.BigInt(tick), delta)),
+      // the accumulator is a uint160 that is allowed to overflow
+      secondsPerLiquidityCumulativeX128: JSBI.remainder(
+        JSBI.add(
+          this.secondsPerLiquidityCumulativeX128,
+          JSBI.divide(JSBI.leftShift(delta, JSBI.BigInt(128)), JSBI.greaterThan(liquidity, ZERO) ? liquidity : ONE)
+        ),
+        Q160
+      ),
+      initialized: true
+    })
+  }
+
+  /**
+   * Returns a JSON serializable representation of the observation, which can be passed back into the constructor
+   */
+  public toJSON(): ObservationJSON {
+    return {
+      blockTimestamp: this.blockTimestamp,
+      tickCumulative: this.tickCumulative.toString(),
+      secondsPerLiquidityCumulativeX128: this.secondsPerLiquidityCumulativeX128.toString(),
+      initialized: this.initialized
+    }
+  }
+}
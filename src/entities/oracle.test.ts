@@ -0,0 +1,192 @@
+import JSBI from 'jsbi'
+import { Q128 } from '../constants'
+import { Observation } from './observation'
+import { Oracle } from './oracle'
+
+describe('Oracle', () => {
+  function observation(
+    blockTimestamp: number,
+    tickCumulative: number,
+    secondsPerLiquidityCumulativeX128: JSBI | number = 0
+  ) {
+    return new Observation({ blockTimestamp, tickCumulative, secondsPerLiquidityCumulativeX128, initialized: true })
+  }
+  const empty = new Observation({
+    blockTimestamp: 0,
+    tickCumulative: 0,
+    secondsPerLiquidityCumulativeX128: 0,
+    initialized: false
+  })
+
+  function tickCumulatives(oracle: Oracle, time: number, secondsAgos: number[], tick = 0): string[] {
+    return oracle
+      .observe(time, secondsAgos, tick, JSBI.BigInt(1))
+      .tickCumulatives.map(tickCumulative => tickCumulative.toString())
+  }
+
+  describe('constructor', () => {
+    it('throws for an invalid cardinality', () => {
+      expect(() => new Oracle({ observations: [], index: 0 })).toThrow('CARDINALITY')
+      expect(() => new Oracle({ observations: [observation(0, 0)], index: 0, cardinality: 2 })).toThrow('CARDINALITY')
+    })
+
+    it('throws for an invalid index', () => {
+      expect(() => new Oracle({ observations: [observation(0, 0)], index: 1 })).toThrow('INDEX')
+      expect(() => new Oracle({ observations: [observation(0, 0), empty], index: 1 })).toThrow('INITIALIZED')
+    })
+  })
+
+  describe('#observe', () => {
+    describe('single observation', () => {
+      const oracle = new Oracle({ observations: [observation(5, 0)], index: 0 })
+
+      it('returns the observation at the current time', () => {
+        expect(oracle.observe(5, [0], 2, JSBI.BigInt(4))).toEqual({
+          tickCumulatives: [JSBI.BigInt(0)],
+          secondsPerLiquidityCumulativeX128s: [JSBI.BigInt(0)]
+        })
+      })
+
+      it('extrapolates from the observation with the current tick and liquidity', () => {
+        expect(oracle.observe(10, [0, 3], 2, JSBI.BigInt(4))).toEqual({
+          tickCumulatives: [JSBI.BigInt(10), JSBI.BigInt(4)],
+          secondsPerLiquidityCumulativeX128s: [
+            JSBI.divide(JSBI.multiply(JSBI.BigInt(5), Q128), JSBI.BigInt(4)),
+            JSBI.divide(JSBI.multiply(JSBI.BigInt(2), Q128), JSBI.BigInt(4))
+          ]
+        })
+      })
+
+      it('treats zero liquidity as one', () => {
+        expect(oracle.observe(6, [0], 0, JSBI.BigInt(0)).secondsPerLiquidityCumulativeX128s).toEqual([Q128])
+      })
+
+      it('throws for a time before the observation', () => {
+        expect(() => oracle.observe(10, [6], 2, JSBI.BigInt(4))).toThrow('OLD')
+      })
+    })
+
+    describe('multiple observations', () => {
+      const oracle = new Oracle({
+        observations: [observation(0, 0, 0), observation(10, 100, 10), observation(20, 300, 30)],
+        index: 2
+      })
+
+      it('returns the observations at their timestamps', () => {
+        expect(tickCumulatives(oracle, 25, [5, 15, 25], 30)).toEqual(['300', '100', '0'])
+      })
+
+      it('interpolates between observations', () => {
+        expect(tickCumulatives(oracle, 25, [10, 20], 30)).toEqual(['200', '50'])
+        expect(oracle.observe(25, [10], 30, JSBI.BigInt(1)).secondsPerLiquidityCumulativeX128s).toEqual([
+          JSBI.BigInt(20)
+        ])
+      })
+
+      it('extrapolates after the newest observation', () => {
+        expect(tickCumulatives(oracle, 25, [0, 2], 30)).toEqual(['450', '390'])
+      })
+
+      it('throws for a time before the oldest observation', () => {
+        expect(() => tickCumulatives(oracle, 25, [26], 30)).toThrow('OLD')
+      })
+    })
+
+    it('searches the ring buffer from the oldest observation after it wraps around', () => {
+      const oracle = new Oracle({
+        observations: [observation(20, 300), observation(30, 600), observation(0, 0), observation(10, 100)],
+        index: 1
+      })
+      expect(tickCumulatives(oracle, 30, [0, 5, 15, 25, 30])).toEqual(['600', '450', '200', '50', '0'])
+      expect(() => tickCumulatives(oracle, 30, [31])).toThrow('OLD')
+    })
+
+    it('ignores the uninitialized observations of a grown ring buffer', () => {
+      const oracle = new Oracle({ observations: [observation(0, 0), observation(10, 100), empty, empty], index: 1 })
+      expect(tickCumulatives(oracle, 10, [5, 10])).toEqual(['50', '0'])
+      expect(() => tickCumulatives(oracle, 10, [11])).toThrow('OLD')
+    })
+
+    it('handles timestamps that overflow uint32', () => {
+      const oracle = new Oracle({ observations: [observation(2 ** 32 - 10, 0), observation(5, 150)], index: 1 })
+      expect(tickCumulatives(oracle, 10, [0, 10, 20], 10)).toEqual(['200', '100', '0'])
+    })
+  })
+
+  describe('#toJSON', () => {
+    it('round trips through fromJSON', () => {
+      const oracle = new Oracle({
+        observations: [observation(0, 0), observation(10, -100, Q128), empty],
+        index: 1,
+        cardinality: 2
+      })
+      const json = JSON.parse(JSON.stringify(oracle))
+      expect(json).toEqual({
+        observations: [
+          { blockTimestamp: 0, tickCumulative: '0', secondsPerLiquidityCumulativeX128: '0', initialized: true },
+          {
+            blockTimestamp: 10,
+            tickCumulative: '-100',
+            secondsPerLiquidityCumulativeX128: Q128.toString(),
+            initialized: true
+          },
+          { blockTimestamp: 0, tickCumulative: '0', secondsPerLiquidityCumulativeX128: '0', initialized: false }
+        ],
+        index: 1,
+        cardinality: 2
+      })
+      expect(Oracle.fromJSON(json)).toEqual(oracle)
+    })
+
+    it('validates on load', () => {
+      const json = new Oracle({ observations: [observation(0, 0)], index: 0 }).toJSON()
+      expect(() => Oracle.fromJSON({ ...json, index: 1 })).toThrow('INDEX')
+      expect(() => Oracle.fromJSON({ ...json, cardinality: 2 })).toThrow('CARDINALITY')
+    })
+  })
+
+  describe('#getTimeWeightedAverageTick', () => {
+    const oracle = new Oracle({ observations: [observation(0, 0), observation(2, -3)], index: 1 })
+
+    it('is the arithmetic mean tick over the window', () => {
+      expect(oracle.getTimeWeightedAverageTick(4, 4, 5, JSBI.BigInt(1))).toEqual(1)
+    })
+
+    it('rounds towards negative infinity', () => {
+      expect(oracle.getTimeWeightedAverageTick(2, 2, 0, JSBI.BigInt(1))).toEqual(-2)
+    })
+
+    it('throws for an empty window', () => {
+      expect(() => oracle.getTimeWeightedAverageTick(2, 0, 0, JSBI.BigInt(1))).toThrow('SECONDS_AGO')
+    })
+  })
+})
+
+describe('Observation', () => {
+  describe('#transform', () => {
+    it('accumulates the tick and seconds per liquidity', () => {
+      const next = new Observation({
+        blockTimestamp: 1,
+        tickCumulative: 10,
+        secondsPerLiquidityCumulativeX128: 0,
+        initialized: false
+      }).transform(4, -2, JSBI.BigInt(3))
+      expect(next.blockTimestamp).toEqual(4)
+      expect(next.tickCumulative).toEqual(JSBI.BigInt(4))
+      expect(next.secondsPerLiquidityCumulativeX128).toEqual(Q128)
+      expect(next.initialized).toBe(true)
+    })
+
+    it('throws for an invalid timestamp', () => {
+      expect(
+        () =>
+          new Observation({
+            blockTimestamp: 2 ** 32,
+            tickCumulative: 0,
+            secondsPerLiquidityCumulativeX128: 0,
+            initialized: true
+          })
+      ).toThrow('TIMESTAMP')
+    })
+  })
+})
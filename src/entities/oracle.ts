@@ -0,0 +1,259 @@
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { Q160, ZERO } from '../constants'
+import { Observation, ObservationJSON } from './observation'
+
+interface OracleConstructorArgs {
+  observations: Observation[]
+  index: number
+  cardinality?: number
+}
+
+/**
+ * The JSON representation of an oracle
+ */
+export interface OracleJSON {
+  observations: ObservationJSON[]
+  index: number
+  cardinality: number
+}
+
+/**
+ * The accumulator values of the oracle as of each of the requested times.
+ */
+export interface OracleObservations {
+  tickCumulatives: JSBI[]
+  secondsPerLiquidityCumulativeX128s: JSBI[]
+}
+
+/**
+ * Returns whether timestamp a is chronologically at or before timestamp b, where both are at or before the current
+ * time, accounting for the timestamps wrapping around every 2**32 seconds
+ * @param time the current block timestamp
+ * @param a the first timestamp
+ * @param b the second timestamp
+ */
+function lte(time: number, a: number, b: number): boolean {
+  // if there hasn't been overflow, no need to adjust
+  if (a <= time && b <= time) return a <= b
+
+  const aAdjusted = a > time ? a : a + 2 ** 32
+  const bAdjusted = b > time ? b : b + 2 ** 32
+
+  return aAdjusted <= bAdjusted
+}
+
+/**
+ * Represents the observations array of a pool, i.e. the ring buffer of observations written by the pool oracle, and
+ * computes the accumulator values as of any time within the window of the observations, mirroring Oracle#observe.
+ */
+export class Oracle {
+  /**
+   * The observations array of the pool, of which the first `cardinality` observations are populated
+   */
+  public readonly observations: Observation[]
+  /**
+   * The index of the most recently written observation
+   */
+  public readonly index: number
+  /**
+   * The number of populated observations, i.e. the size of the ring buffer
+   */
+  public readonly cardinality: number
+
+  /**
+   * Constructs an oracle from its JSON representation, validating it like the constructor
+   * @param json the JSON representation of the oracle
+   */
+  public static fromJSON({ observations, index, cardinality }: OracleJSON): Oracle {
+    invariant(Array.isArray(observations), 'OBSERVATIONS')
+    return new Oracle({
+      observations: observations.map(observation => Observation.fromJSON(observation)),
+      index,
+      cardinality
+    })
+  }
+
+  public constructor({ observations, index, cardinality = observations.length }: OracleConstructorArgs) {
+    invariant(Number.isInteger(cardinality) && cardinality > 0 && cardinality <= observations.length, 'CARDINALITY')
+    invariant(Number.isInteger(index) && index >= 0 && index < cardinality, 'INDEX')
+    invariant(observations[index].initialized, 'INITIALIZED')
+    this.observations = observations
+    this.index = index
+    this.cardinality = cardinality
+  }
+
+  /**
+   * Returns the accumulator values as of each time `secondsAgos` seconds before the current time
+   * @param time the current block timestamp
+   * @param secondsAgos how long ago to return each of the accumulator values
+   * @param tick the current tick of the pool
+   * @param liquidity the current in range liquidity of the pool
+   */
+  public observe(time: number, secondsAgos: number[], tick: number, liquidity: JSBI): OracleObservations {
+    const tickCumulatives: JSBI[] = []
+    const secondsPerLiquidityCumulativeX128s: JSBI[] = []
+    for (const secondsAgo of secondsAgos) {
+      const { tickCumulative, secondsPerLiquidityCumulativeX128 } = this.observeSingle(
+        time,
+        secondsAgo,
+        tick,
+        liquidity
+      )
+      tickCumulatives.push(tickCumulative)
+      secondsPerLiquidityCumulativeX128s.push(secondsPerLiquidityCumulativeX128)
+    }
+    return { tickCumulatives, secondsPerLiquidityCumulativeX128s }
+  }
+
+  /**
+   * Returns the arithmetic mean tick over the last `secondsAgo` seconds, rounded towards negative infinity
+   * @param time the current block timestamp
+   * @param secondsAgo the length of the window that ends at the current time
+   * @param tick the current tick of the pool
+   * @param liquidity the current in range liquidity of the pool
+   */
+  public getTimeWeightedAverageTick(time: number, secondsAgo: number, tick: number, liquidity: JSBI): number {
+    invariant(Number.isInteger(secondsAgo) && secondsAgo > 0, 'SECONDS_AGO')
+    const {
+      tickCumulatives: [tickCumulativeStart, tickCumulativeEnd]
+    } = this.observe(time, [secondsAgo, 0], tick, liquidity)
+    const tickCumulativesDelta = JSBI.subtract(tickCumulativeEnd, tickCumulativeStart)
+    const window = JSBI.BigInt(secondsAgo)
+    let averageTick = JSBI.toNumber(JSBI.divide(tickCumulativesDelta, window))
+    // always round to negative infinity
+    if (
+      JSBI.lessThan(tickCumulativesDelta, ZERO) &&
+      JSBI.notEqual(JSBI.remainder(tickCumulativesDelta, window), ZERO)
+    ) {
+      averageTick--
+    }
+    return averageTick
+  }
+
+  /**
+   * Returns a JSON serializable representation of the oracle
+   */
+  public toJSON(): OracleJSON {
+    return {
+      observations: this.observations.map(observation => observation.toJSON()),
+      index: this.index,
+      cardinality: this.cardinality
+    }
+  }
+
+  /**
+   * Returns the accumulator values as of `secondsAgo` seconds before the current time, interpolating between the
+   * surrounding observations
+   */
+  private observeSingle(time: number, secondsAgo: number, tick: number, liquidity: JSBI): Observation {
+    invariant(Number.isInteger(secondsAgo) && secondsAgo >= 0, 'SECONDS_AGO')
+    if (secondsAgo === 0) {
+      const last = this.observations[this.index]
+      return last.blockTimestamp === time ? last : last.transform(time, tick, liquidity)
+    }
+
+    const target = (time - secondsAgo) >>> 0
+    const [beforeOrAt, atOrAfter] = this.getSurroundingObservations(time, target, tick, liquidity)
+
+    if (target === beforeOrAt.blockTimestamp) {
+      // we're at the left boundary
+      return beforeOrAt
+    } else if (target === atOrAfter.blockTimestamp) {
+      // we're at the right boundary
+      return atOrAfter
+    } else {
+      // we're in the middle
+      const observationTimeDelta = JSBI.BigInt((atOrAfter.blockTimestamp - beforeOrAt.blockTimestamp) >>> 0)
+      const targetDelta = JSBI.BigInt((target - beforeOrAt.blockTimestamp) >>> 0)
+      // the difference of the uint160 accumulators wraps around if the accumulator overflowed in between
+      let secondsPerLiquidityDelta = JSBI.subtract(
+        atOrAfter.secondsPerLiquidityCumulativeX128,
+        beforeOrAt.secondsPerLiquidityCumulativeX128
+      )
+      if (JSBI.lessThan(secondsPerLiquidityDelta, ZERO)) {
+        secondsPerLiquidityDelta = JSBI.add(secondsPerLiquidityDelta, Q160)
+      }
+      return new Observation({
+        blockTimestamp: target,
+        tickCumulative: JSBI.add(
+          beforeOrAt.tickCumulative,
+          JSBI.multiply(
+            JSBI.divide(JSBI.subtract(atOrAfter.tickCumulative, beforeOrAt.tickCumulative), observationTimeDelta),
+            targetDelta
+          )
+        ),
+        secondsPerLiquidityCumulativeX128: JSBI.remainder(
+          JSBI.add(
+            beforeOrAt.secondsPerLiquidityCumulativeX128,
+            JSBI.divide(JSBI.multiply(secondsPerLiquidityDelta, targetDelta), observationTimeDelta)
+          ),
+          Q160
+        ),
+        initialized: true
+      })
+    }
+  }
+
+  /**
+   * Returns the observations at or before, and at or after, the target timestamp, where the latter may be the
+   * observation that would be written at the target timestamp if the target is after the most recent observation
+   */
+  private getSurroundingObservations(
+    time: number,
+    target: number,
+    tick: number,
+    liquidity: JSBI
+  ): [Observation, Observation] {
+    // optimistically set before to the newest observation
+    let beforeOrAt = this.observations[this.index]
+
+    // if the target is chronologically at or after the newest observation, we can early return
+    if (lte(time, beforeOrAt.blockTimestamp, target)) {
+      // if the newest observation equals the target, the other observation is not used
+      return [
+        beforeOrAt,
+        beforeOrAt.blockTimestamp === target ? beforeOrAt : beforeOrAt.transform(target, tick, liquidity)
+      ]
+    }
+
+    // now, set before to the oldest observation
+    beforeOrAt = this.observations[(this.index + 1) % this.cardinality]
+    if (!beforeOrAt.initialized) beforeOrAt = this.observations[0]
+
+    // ensure that the target is chronologically at or after the oldest observation
+    invariant(lte(time, beforeOrAt.blockTimestamp, target), 'OLD')
+
+    return this.binarySearch(time, target)
+  }
+
+  /**
+   * Returns the observations at or before, and at or after, the target timestamp, which must be within the window of
+   * the observations
+   */
+  private binarySearch(time: number, target: number): [Observation, Observation] {
+    let l = (this.index + 1) % this.cardinality // oldest observation
+    let r = l + this.cardinality - 1 // newest observation
+    while (true) {
+      const i = Math.floor((l + r) / 2)
+
+      const beforeOrAt = this.observations[i % this.cardinality]
+
+      // we've landed on an uninitialized observation, keep searching higher (more recently)
+      if (!beforeOrAt.initialized) {
+        l = i + 1
+        continue
+      }
+
+      const atOrAfter = this.observations[(i + 1) % this.cardinality]
+
+      const targetAtOrAfter = lte(time, beforeOrAt.blockTimestamp, target)
+
+      // check if we've found the answer!
+      if (targetAtOrAfter && lte(time, target, atOrAfter.blockTimestamp)) return [beforeOrAt, atOrAfter]
+
+      if (!targetAtOrAfter) r = i - 1
+      else l = i + 1
+    }
+  }
+}
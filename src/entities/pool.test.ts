@@ -1,8 +1,16 @@
-import { ChainId, Price, Token, TokenAmount, WETH9 } from '@uniswap/sdk-core'
+import { ChainId, Token, TokenAmount, WETH9 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
 import { FeeAmount } from '../constants'
-import { computePoolAddress, Pool } from './pool'
+import { InsufficientInputAmountError, InsufficientReservesError } from '../errors'
+import { makeFullRangePool } from '../testUtils'
+import { maxUsableTick, minUsableTick, TickMath, tickToPrice } from '../utils'
+import { Observation } from './observation'
+import { Oracle } from './oracle'
+import { computePoolAddress, Pool, PoolJSON } from './pool'
 import { Tick } from './tick'
+import { TickDataProvider } from './tickDataProvider'
 import { TickList } from './tickList'
+import { TickListDataProvider } from './tickListDataProvider'
 
 describe('computePoolAddress', () => {
   const factoryAddress = '0x1111111111111111111111111111111111111111'
@@ -45,184 +53,195 @@ describe('computePoolAddress', () => {
   })
 })
 
-describe.skip('Pool', () => {
-  let DAI: Token
-  let DAI100: TokenAmount
-  let USDC: Token
-  let USDC100: TokenAmount
-  let tickMapDefault: TickList
-  let pool: Pool
-  const sqrtPriceX96Default = 20
+describe('Pool', () => {
+  const USDC = new Token(ChainId.MAINNET, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 18, 'USDC', 'USD Coin')
+  const DAI = new Token(ChainId.MAINNET, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const Q96 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(96))
   const inRangeLiquidityDefault = 0
-  beforeEach(() => {
-    USDC = new Token(ChainId.MAINNET, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 18, 'USDC', 'USD Coin')
-    DAI = new Token(ChainId.MAINNET, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
-    DAI100 = new TokenAmount(DAI, '100')
-    USDC100 = new TokenAmount(USDC, '100')
-    tickMapDefault = new TickList({
-      ticks: [
-        new Tick({ feeGrowthOutside0X128: 2, feeGrowthOutside1X128: 3, index: -2, liquidityNet: 0, liquidityGross: 0 }),
-        new Tick({ feeGrowthOutside0X128: 4, feeGrowthOutside1X128: 1, index: 2, liquidityNet: 0, liquidityGross: 0 })
-      ]
-    })
+  const tickMapDefault = new TickList({
+    ticks: [
+      new Tick({ feeGrowthOutside0X128: 2, feeGrowthOutside1X128: 3, index: -600, liquidityNet: 0, liquidityGross: 0 }),
+      new Tick({ feeGrowthOutside0X128: 4, feeGrowthOutside1X128: 1, index: 600, liquidityNet: 0, liquidityGross: 0 })
+    ]
   })
+  let pool: Pool
+
   describe('constructor', () => {
     it('cannot be used for tokens on different chains', () => {
       expect(() => {
-        new Pool(
-          USDC100,
-          new TokenAmount(WETH9[ChainId.RINKEBY], '100'),
-          FeeAmount.MEDIUM,
-          sqrtPriceX96Default,
-          inRangeLiquidityDefault,
-          tickMapDefault
-        )
+        new Pool(USDC, WETH9[ChainId.RINKEBY], FeeAmount.MEDIUM, Q96, inRangeLiquidityDefault, tickMapDefault)
       }).toThrow('CHAIN_IDS')
     })
 
     it('should have at least one initialized tick', () => {
       expect(() => {
-        new Pool(
-          USDC100,
-          new TokenAmount(WETH9[ChainId.RINKEBY], '100'),
-          FeeAmount.MEDIUM,
-          sqrtPriceX96Default,
-          inRangeLiquidityDefault,
-          new TickList({ ticks: [] })
-        )
+        new Pool(USDC, DAI, FeeAmount.MEDIUM, Q96, inRangeLiquidityDefault, new TickList({ ticks: [] }))
       }).toThrow()
     })
+
+    it('derives the current tick from the sqrt price', () => {
+      expect(new Pool(USDC, DAI, FeeAmount.MEDIUM, Q96, inRangeLiquidityDefault, tickMapDefault).tickCurrent).toEqual(0)
+      expect(
+        new Pool(USDC, DAI, FeeAmount.MEDIUM, TickMath.getSqrtRatioAtTick(-5), inRangeLiquidityDefault, tickMapDefault)
+          .tickCurrent
+      ).toEqual(-5)
+    })
   })
 
   describe('#getAddress', () => {
     it('matches an example', () => {
       const result = Pool.getAddress(USDC, DAI, FeeAmount.LOW)
-      expect(result).toEqual('0x84e755dD2f34969933a9F9334C40b15146d52510')
+      expect(result).toEqual('0x462491f91B7889fC968F35fa510E93F7d40d0DCC')
     })
   })
 
   describe('#token0', () => {
     it('always is the token that sorts before', () => {
-      pool = new Pool(USDC100, DAI100, FeeAmount.LOW, sqrtPriceX96Default, inRangeLiquidityDefault, tickMapDefault)
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
       expect(pool.token0).toEqual(DAI)
-      pool = new Pool(DAI100, USDC100, FeeAmount.LOW, sqrtPriceX96Default, inRangeLiquidityDefault, tickMapDefault)
+      pool = new Pool(DAI, USDC, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
       expect(pool.token0).toEqual(DAI)
     })
   })
   describe('#token1', () => {
     it('always is the token that sorts after', () => {
-      pool = new Pool(USDC100, DAI100, FeeAmount.LOW, sqrtPriceX96Default, inRangeLiquidityDefault, tickMapDefault)
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
       expect(pool.token1).toEqual(USDC)
-      pool = new Pool(DAI100, USDC100, FeeAmount.LOW, sqrtPriceX96Default, inRangeLiquidityDefault, tickMapDefault)
+      pool = new Pool(DAI, USDC, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
       expect(pool.token1).toEqual(USDC)
     })
   })
-  describe('#reserve0', () => {
-    it('always comes from the token that sorts before', () => {
-      pool = new Pool(
-        USDC100,
-        new TokenAmount(DAI, '101'),
-        FeeAmount.LOW,
-        sqrtPriceX96Default,
-        inRangeLiquidityDefault,
-        tickMapDefault
+
+  describe('#tickCurrent', () => {
+    it('can be passed explicitly', () => {
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, 0)
+      expect(pool.tickCurrent).toEqual(0)
+    })
+
+    it('can be one below the tick of a price on a tick boundary', () => {
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, -1)
+      expect(pool.tickCurrent).toEqual(-1)
+    })
+
+    it('throws if the tick is not an integer within bounds', () => {
+      expect(() => new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, 0.5)).toThrow(
+        'TICK'
       )
-      expect(pool.reserve0).toEqual(new TokenAmount(DAI, '101'))
-      pool = new Pool(
-        new TokenAmount(DAI, '101'),
-        USDC100,
-        FeeAmount.LOW,
-        sqrtPriceX96Default,
-        inRangeLiquidityDefault,
-        tickMapDefault
+      expect(
+        () => new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, TickMath.MAX_TICK)
+      ).toThrow('TICK')
+    })
+
+    it('throws if the tick does not match the price', () => {
+      expect(() => new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, 1)).toThrow(
+        'PRICE_BOUNDS'
+      )
+      expect(() => new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, -2)).toThrow(
+        'PRICE_BOUNDS'
       )
-      expect(pool.reserve0).toEqual(new TokenAmount(DAI, '101'))
     })
   })
-  describe('#reserve1', () => {
-    it('always comes from the token that sorts after', () => {
-      expect(
-        new Pool(
-          USDC100,
-          new TokenAmount(DAI, '101'),
-          FeeAmount.LOW,
-          sqrtPriceX96Default,
-          inRangeLiquidityDefault,
-          tickMapDefault
-        ).reserve1
-      ).toEqual(USDC100)
-      expect(
-        new Pool(
-          new TokenAmount(DAI, '101'),
-          USDC100,
-          FeeAmount.LOW,
-          sqrtPriceX96Default,
-          inRangeLiquidityDefault,
-          tickMapDefault
-        ).reserve1
-      ).toEqual(USDC100)
+
+  describe('#liquidity', () => {
+    const ticks = new TickList({
+      ticks: [
+        new Tick({
+          feeGrowthOutside0X128: 0,
+          feeGrowthOutside1X128: 0,
+          index: -600,
+          liquidityNet: 5,
+          liquidityGross: 5
+        }),
+        new Tick({ feeGrowthOutside0X128: 0, feeGrowthOutside1X128: 0, index: 0, liquidityNet: 3, liquidityGross: 3 }),
+        new Tick({
+          feeGrowthOutside0X128: 0,
+          feeGrowthOutside1X128: 0,
+          index: 600,
+          liquidityNet: -8,
+          liquidityGross: 8
+        })
+      ]
+    })
+
+    it('is the in range liquidity', () => {
+      expect(new Pool(USDC, DAI, FeeAmount.LOW, Q96, 8, ticks).liquidity).toEqual(JSBI.BigInt(8))
+      expect(new Pool(USDC, DAI, FeeAmount.LOW, Q96, 5, ticks, -1).liquidity).toEqual(JSBI.BigInt(5))
+    })
+
+    it('throws if it does not match the net liquidity of the ticks at or below the current tick', () => {
+      expect(() => new Pool(USDC, DAI, FeeAmount.LOW, Q96, 5, ticks)).toThrow('LIQUIDITY')
+      expect(() => new Pool(USDC, DAI, FeeAmount.LOW, Q96, 8, ticks, -1)).toThrow('LIQUIDITY')
     })
   })
 
   describe('#token0Price', () => {
     it('returns price of token0 in terms of token1', () => {
+      const sqrtPriceX96 = JSBI.multiply(Q96, JSBI.BigInt(2))
       expect(
         new Pool(
-          new TokenAmount(USDC, '101'),
-          DAI100,
+          USDC,
+          DAI,
           FeeAmount.LOW,
-          sqrtPriceX96Default,
+          sqrtPriceX96,
           inRangeLiquidityDefault,
           tickMapDefault
-        ).token0Price
-      ).toEqual(new Price(DAI, USDC, '100', '101'))
+        ).token0Price.toSignificant(5)
+      ).toEqual('4')
       expect(
         new Pool(
-          DAI100,
-          new TokenAmount(USDC, '101'),
+          DAI,
+          USDC,
           FeeAmount.LOW,
-          sqrtPriceX96Default,
+          sqrtPriceX96,
           inRangeLiquidityDefault,
           tickMapDefault
-        ).token0Price
-      ).toEqual(new Price(DAI, USDC, '100', '101'))
+        ).token0Price.toSignificant(5)
+      ).toEqual('4')
+    })
+
+    it('matches the price of the current tick', () => {
+      const sqrtPriceX96 = TickMath.getSqrtRatioAtTick(-600)
+      expect(
+        new Pool(USDC, DAI, FeeAmount.LOW, sqrtPriceX96, inRangeLiquidityDefault, tickMapDefault).token0Price
+      ).toEqual(tickToPrice(DAI, USDC, -600))
     })
   })
 
   describe('#token1Price', () => {
     it('returns price of token1 in terms of token0', () => {
+      const sqrtPriceX96 = JSBI.multiply(Q96, JSBI.BigInt(2))
       expect(
         new Pool(
-          new TokenAmount(USDC, '101'),
-          DAI100,
+          USDC,
+          DAI,
           FeeAmount.LOW,
-          sqrtPriceX96Default,
+          sqrtPriceX96,
           inRangeLiquidityDefault,
           tickMapDefault
-        ).token1Price
-      ).toEqual(new Price(USDC, DAI, '101', '100'))
+        ).token1Price.toSignificant(5)
+      ).toEqual('0.25')
       expect(
         new Pool(
-          DAI100,
-          new TokenAmount(USDC, '101'),
+          DAI,
+          USDC,
           FeeAmount.LOW,
-          sqrtPriceX96Default,
+          sqrtPriceX96,
           inRangeLiquidityDefault,
           tickMapDefault
-        ).token1Price
-      ).toEqual(new Price(USDC, DAI, '101', '100'))
+        ).token1Price.toSignificant(5)
+      ).toEqual('0.25')
+    })
+
+    it('matches the price of the current tick', () => {
+      const sqrtPriceX96 = TickMath.getSqrtRatioAtTick(-600)
+      expect(
+        new Pool(USDC, DAI, FeeAmount.LOW, sqrtPriceX96, inRangeLiquidityDefault, tickMapDefault).token1Price
+      ).toEqual(tickToPrice(USDC, DAI, -600))
     })
   })
 
   describe('#priceOf', () => {
-    const pool = new Pool(
-      new TokenAmount(USDC, '101'),
-      DAI100,
-      FeeAmount.LOW,
-      sqrtPriceX96Default,
-      inRangeLiquidityDefault,
-      tickMapDefault
-    )
+    const pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
     it('returns price of token in terms of other token', () => {
       expect(pool.priceOf(DAI)).toEqual(pool.token0Price)
       expect(pool.priceOf(USDC)).toEqual(pool.token1Price)
@@ -233,57 +252,378 @@ describe.skip('Pool', () => {
     })
   })
 
-  describe('#reserveOf', () => {
-    it('returns reserves of the given token', () => {
-      expect(
-        new Pool(
-          USDC100,
-          new TokenAmount(DAI, '101'),
-          FeeAmount.LOW,
-          sqrtPriceX96Default,
-          inRangeLiquidityDefault,
-          tickMapDefault
-        ).reserveOf(USDC)
-      ).toEqual(USDC100)
-      expect(
+  describe('#chainId', () => {
+    it('returns the token0 chainId', () => {
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
+      expect(pool.chainId).toEqual(ChainId.MAINNET)
+      pool = new Pool(DAI, USDC, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
+      expect(pool.chainId).toEqual(ChainId.MAINNET)
+    })
+  })
+  describe('#involvesToken', () => {
+    it('is true only for the pool tokens', () => {
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
+      expect(pool.involvesToken(USDC)).toEqual(true)
+      expect(pool.involvesToken(DAI)).toEqual(true)
+      expect(pool.involvesToken(WETH9[ChainId.MAINNET])).toEqual(false)
+    })
+  })
+
+  describe('oracle', () => {
+    const oracle = new Oracle({
+      observations: [
+        new Observation({
+          blockTimestamp: 0,
+          tickCumulative: 0,
+          secondsPerLiquidityCumulativeX128: 0,
+          initialized: true
+        }),
+        new Observation({
+          blockTimestamp: 10,
+          tickCumulative: 1000,
+          secondsPerLiquidityCumulativeX128: 0,
+          initialized: true
+        })
+      ],
+      index: 1
+    })
+
+    it('throws without an oracle', () => {
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault)
+      expect(() => pool.observe(20, [0])).toThrow('ORACLE')
+      expect(() => pool.getTimeWeightedAverageTick(20, 10)).toThrow('ORACLE')
+    })
+
+    it('#observe uses the current tick of the pool', () => {
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, 0, oracle)
+      expect(pool.observe(20, [0, 5, 20]).tickCumulatives.map(tickCumulative => tickCumulative.toString())).toEqual([
+        '1000',
+        '1000',
+        '0'
+      ])
+    })
+
+    it('#getTimeWeightedAverageTick', () => {
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, 0, oracle)
+      expect(pool.getTimeWeightedAverageTick(20, 20)).toEqual(50)
+      expect(pool.getTimeWeightedAverageTick(20, 10)).toEqual(0)
+    })
+
+    it('#getTimeWeightedAveragePrice', () => {
+      pool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, inRangeLiquidityDefault, tickMapDefault, 0, oracle)
+      expect(pool.getTimeWeightedAveragePrice(DAI, 20, 20)).toEqual(tickToPrice(DAI, USDC, 50))
+      expect(pool.getTimeWeightedAveragePrice(USDC, 20, 20)).toEqual(tickToPrice(USDC, DAI, 50))
+      expect(() => pool.getTimeWeightedAveragePrice(WETH9[ChainId.MAINNET], 20, 20)).toThrow('TOKEN')
+    })
+  })
+})
+
+describe('Pool swaps', () => {
+  const USDC = new Token(ChainId.MAINNET, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(ChainId.MAINNET, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const ONE_ETHER = JSBI.exponentiate(JSBI.BigInt(10), JSBI.BigInt(18))
+  const Q96 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(96))
+
+  let pool: Pool
+  beforeEach(() => {
+    pool = makeFullRangePool(USDC, DAI, FeeAmount.LOW, ONE_ETHER)
+  })
+
+  it('throws if a tick is not a multiple of the tick spacing', () => {
+    expect(
+      () =>
         new Pool(
-          new TokenAmount(DAI, '101'),
-          USDC100,
+          USDC,
+          DAI,
           FeeAmount.LOW,
-          sqrtPriceX96Default,
-          inRangeLiquidityDefault,
-          tickMapDefault
-        ).reserveOf(USDC)
-      ).toEqual(USDC100)
+          Q96,
+          ONE_ETHER,
+          pool.tickList.insert(
+            new Tick({
+              feeGrowthOutside0X128: 0,
+              feeGrowthOutside1X128: 0,
+              index: 5,
+              liquidityNet: 0,
+              liquidityGross: 0
+            })
+          )
+        )
+    ).toThrow('TICK_SPACING')
+  })
+
+  describe('#getOutputAmount', () => {
+    it('USDC -> DAI', () => {
+      const [outputAmount] = pool.getOutputAmount(new TokenAmount(USDC, 100))
+      expect(outputAmount.token.equals(DAI)).toBe(true)
+      expect(outputAmount.raw).toEqual(JSBI.BigInt(98))
+    })
+
+    it('DAI -> USDC', () => {
+      const [outputAmount] = pool.getOutputAmount(new TokenAmount(DAI, 100))
+      expect(outputAmount.token.equals(USDC)).toBe(true)
+      expect(outputAmount.raw).toEqual(JSBI.BigInt(98))
+    })
+
+    it('returns the pool state after the swap', () => {
+      const inputAmount = new TokenAmount(DAI, JSBI.divide(ONE_ETHER, JSBI.BigInt(10)))
+      const [outputAmount, nextPool] = pool.getOutputAmount(inputAmount)
+      expect(nextPool.liquidity).toEqual(ONE_ETHER)
+      expect(nextPool.token0Price.lessThan(pool.token0Price)).toBe(true)
+      const [nextOutputAmount] = nextPool.getOutputAmount(inputAmount)
+      expect(nextOutputAmount.lessThan(outputAmount)).toBe(true)
+    })
+
+    it('does not reuse the cached prices of the pool before the swap', () => {
+      const price = pool.token1Price
+      const [, nextPool] = pool.getOutputAmount(new TokenAmount(DAI, JSBI.divide(ONE_ETHER, JSBI.BigInt(10))))
+      expect(nextPool).toBeInstanceOf(Pool)
+      expect(nextPool.token1Price.greaterThan(price)).toBe(true)
+    })
+
+    it('throws if the output amount is zero', () => {
+      expect(() => pool.getOutputAmount(new TokenAmount(DAI, 1))).toThrow(InsufficientInputAmountError)
+    })
+  })
+
+  describe('#getInputAmount', () => {
+    it('USDC -> DAI', () => {
+      const [inputAmount] = pool.getInputAmount(new TokenAmount(DAI, 98))
+      expect(inputAmount.token.equals(USDC)).toBe(true)
+      expect(inputAmount.raw).toEqual(JSBI.BigInt(100))
+    })
+
+    it('DAI -> USDC', () => {
+      const [inputAmount] = pool.getInputAmount(new TokenAmount(USDC, 98))
+      expect(inputAmount.token.equals(DAI)).toBe(true)
+      expect(inputAmount.raw).toEqual(JSBI.BigInt(100))
+    })
+
+    it('throws if the output amount exceeds the available liquidity', () => {
+      expect(() => pool.getInputAmount(new TokenAmount(USDC, JSBI.multiply(ONE_ETHER, JSBI.BigInt(2))))).toThrow(
+        InsufficientReservesError
+      )
+    })
+  })
+
+  describe('#toJSON', () => {
+    it('round trips through fromJSON', () => {
+      const result = Pool.fromJSON(JSON.parse(JSON.stringify(pool)))
+      expect(result.toJSON()).toEqual(pool.toJSON())
+      expect(result.oracle).toBeUndefined()
+      const [outputAmount] = result.getOutputAmount(new TokenAmount(USDC, 100))
+      expect(outputAmount.raw).toEqual(pool.getOutputAmount(new TokenAmount(USDC, 100))[0].raw)
     })
 
-    it('throws if not in the pool', () => {
+    it('includes the oracle', () => {
+      const oracle = new Oracle({
+        observations: [
+          new Observation({
+            blockTimestamp: 0,
+            tickCumulative: 0,
+            secondsPerLiquidityCumulativeX128: 0,
+            initialized: true
+          })
+        ],
+        index: 0
+      })
+      const withOracle = Pool.fromJSON({ ...pool.toJSON(), oracle: oracle.toJSON() })
+      expect(withOracle.toJSON().oracle).toEqual(oracle.toJSON())
+      expect(Pool.fromJSON(JSON.parse(JSON.stringify(withOracle))).oracle).toEqual(oracle)
+    })
+  })
+
+  describe('#fromJSON', () => {
+    it('throws for an unknown version', () => {
+      expect(() => Pool.fromJSON(({ ...pool.toJSON(), version: 2 } as unknown) as PoolJSON)).toThrow('VERSION')
+    })
+
+    it('throws for an address that is not checksummed', () => {
+      const json = pool.toJSON()
       expect(() =>
-        new Pool(
-          new TokenAmount(DAI, '101'),
-          USDC100,
-          FeeAmount.LOW,
-          sqrtPriceX96Default,
-          inRangeLiquidityDefault,
-          tickMapDefault
-        ).reserveOf(WETH9[ChainId.MAINNET])
-      ).toThrow('TOKEN')
+        Pool.fromJSON({ ...json, token0: { ...json.token0, address: json.token0.address.toLowerCase() } })
+      ).toThrow('CHECKSUM')
+    })
+
+    it('throws if the tokens are not sorted', () => {
+      const json = pool.toJSON()
+      expect(() => Pool.fromJSON({ ...json, token0: json.token1, token1: json.token0 })).toThrow('TOKEN_ORDER')
+    })
+
+    it('throws for an unknown fee', () => {
+      expect(() => Pool.fromJSON({ ...pool.toJSON(), fee: 1 })).toThrow('FEE')
+    })
+
+    it('throws for the name of a fee', () => {
+      expect(() => Pool.fromJSON(({ ...pool.toJSON(), fee: 'LOW' } as unknown) as PoolJSON)).toThrow('FEE')
+    })
+
+    it('throws if a tick is not a multiple of the tick spacing', () => {
+      expect(() => Pool.fromJSON({ ...pool.toJSON(), fee: FeeAmount.MEDIUM })).toThrow('TICK_SPACING')
+    })
+
+    it('throws if the liquidity does not match the ticks', () => {
+      expect(() => Pool.fromJSON({ ...pool.toJSON(), liquidity: '1' })).toThrow('LIQUIDITY')
     })
   })
 
-  describe('#chainId', () => {
-    it('returns the token0 chainId', () => {
-      pool = new Pool(USDC100, DAI100, FeeAmount.LOW, sqrtPriceX96Default, inRangeLiquidityDefault, tickMapDefault)
-      expect(pool.chainId).toEqual(ChainId.MAINNET)
-      pool = new Pool(DAI100, USDC100, FeeAmount.LOW, sqrtPriceX96Default, inRangeLiquidityDefault, tickMapDefault)
-      expect(pool.chainId).toEqual(ChainId.MAINNET)
+  describe('#getOutputAmountAsync', () => {
+    it('matches getOutputAmount', async () => {
+      const [outputAmount, poolAfter] = await pool.getOutputAmountAsync(new TokenAmount(USDC, 100))
+      const [expectedAmount, expectedPool] = pool.getOutputAmount(new TokenAmount(USDC, 100))
+      expect(outputAmount).toEqual(expectedAmount)
+      expect(poolAfter.sqrtPriceX96).toEqual(expectedPool.sqrtPriceX96)
+    })
+
+    it('rejects for a token not in the pool', async () => {
+      await expect(pool.getOutputAmountAsync(new TokenAmount(WETH9[ChainId.MAINNET], 100))).rejects.toThrow('TOKEN')
     })
   })
-  describe('#involvesToken', () => {
-    pool = new Pool(USDC100, DAI100, FeeAmount.LOW, sqrtPriceX96Default, inRangeLiquidityDefault, tickMapDefault)
-    expect(pool.involvesToken(USDC)).toEqual(true)
-    expect(pool.involvesToken(DAI)).toEqual(true)
-    pool = new Pool(USDC100, DAI100, FeeAmount.LOW, sqrtPriceX96Default, inRangeLiquidityDefault, tickMapDefault)
-    expect(pool.involvesToken(WETH9[ChainId.MAINNET])).toEqual(false)
+
+  describe('#getInputAmountAsync', () => {
+    it('matches getInputAmount', async () => {
+      const [inputAmount] = await pool.getInputAmountAsync(new TokenAmount(DAI, 98))
+      expect(inputAmount).toEqual(pool.getInputAmount(new TokenAmount(DAI, 98))[0])
+    })
+
+    it('rejects if the output amount exceeds the available liquidity', async () => {
+      await expect(
+        pool.getInputAmountAsync(new TokenAmount(USDC, JSBI.multiply(ONE_ETHER, JSBI.BigInt(2))))
+      ).rejects.toThrow(InsufficientReservesError)
+    })
+  })
+
+  describe('with a tick data provider', () => {
+    // records which ticks are loaded, like a provider that fetches them on demand
+    let loaded: number[]
+    let lazyPool: Pool
+    beforeEach(() => {
+      loaded = []
+      const inMemory = new TickListDataProvider(pool.tickList)
+      const provider: TickDataProvider = {
+        async getTick(tick: number) {
+          loaded.push(tick)
+          return inMemory.getTick(tick)
+        },
+        nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number) {
+          return inMemory.nextInitializedTickWithinOneWord(tick, lte, tickSpacing)
+        }
+      }
+      lazyPool = new Pool(USDC, DAI, FeeAmount.LOW, Q96, ONE_ETHER, provider)
+    })
+
+    it('quotes the same amounts', async () => {
+      const [outputAmount] = await lazyPool.getOutputAmountAsync(new TokenAmount(USDC, 100))
+      expect(outputAmount).toEqual(pool.getOutputAmount(new TokenAmount(USDC, 100))[0])
+      expect(loaded).toEqual([])
+    })
+
+    it('loads the ticks that are crossed', async () => {
+      await expect(
+        lazyPool.getInputAmountAsync(new TokenAmount(USDC, JSBI.multiply(ONE_ETHER, JSBI.BigInt(2))))
+      ).rejects.toThrow(InsufficientReservesError)
+      expect(loaded).toEqual([minUsableTick(FeeAmount.LOW)])
+    })
+
+    it('carries the provider to the pool after the swap', async () => {
+      const [, poolAfter] = await lazyPool.getOutputAmountAsync(new TokenAmount(USDC, 100))
+      expect(poolAfter.tickDataProvider).toBe(lazyPool.tickDataProvider)
+    })
+
+    it('throws for the synchronous methods that need the tick list', () => {
+      expect(() => lazyPool.getOutputAmount(new TokenAmount(USDC, 100))).toThrow('TICK_LIST')
+      expect(() => lazyPool.getInputAmount(new TokenAmount(DAI, 98))).toThrow('TICK_LIST')
+      expect(() => lazyPool.toJSON()).toThrow('TICK_LIST')
+    })
+  })
+})
+
+// expected values are those of UniswapV3Pool#swap against the same positions
+describe('Pool swaps across initialized ticks', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const ONE_ETHER = JSBI.exponentiate(JSBI.BigInt(10), JSBI.BigInt(18))
+  const Q96 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(96))
+
+  function tick(index: number, liquidityNet: JSBI) {
+    return new Tick({
+      feeGrowthOutside0X128: 0,
+      feeGrowthOutside1X128: 0,
+      index,
+      liquidityNet,
+      liquidityGross: JSBI.lessThan(liquidityNet, JSBI.BigInt(0))
+        ? JSBI.multiply(liquidityNet, JSBI.BigInt(-1))
+        : liquidityNet
+    })
+  }
+
+  // a full range position of 1e18 and a position of 2e18 between the ticks -120 and 60
+  const pool = new Pool(
+    token0,
+    token1,
+    FeeAmount.MEDIUM,
+    Q96,
+    JSBI.multiply(ONE_ETHER, JSBI.BigInt(3)),
+    new TickList({
+      ticks: [
+        tick(minUsableTick(FeeAmount.MEDIUM), ONE_ETHER),
+        tick(-120, JSBI.multiply(ONE_ETHER, JSBI.BigInt(2))),
+        tick(60, JSBI.multiply(ONE_ETHER, JSBI.BigInt(-2))),
+        tick(maxUsableTick(FeeAmount.MEDIUM), JSBI.multiply(ONE_ETHER, JSBI.BigInt(-1)))
+      ]
+    })
+  )
+
+  describe('#getOutputAmount', () => {
+    it('crosses a tick to the left', () => {
+      const [outputAmount, poolAfter] = pool.getOutputAmount(new TokenAmount(token0, '30000000000000000'))
+      expect(outputAmount.token).toEqual(token1)
+      expect(outputAmount.raw.toString()).toEqual('29524118714128421')
+      expect(poolAfter.sqrtPriceX96.toString()).toEqual('77836865021505680211641421704')
+      expect(poolAfter.tickCurrent).toEqual(-355)
+      expect(poolAfter.liquidity).toEqual(ONE_ETHER)
+    })
+
+    it('crosses a tick to the right', () => {
+      const [outputAmount, poolAfter] = pool.getOutputAmount(new TokenAmount(token1, '20000000000000000'))
+      expect(outputAmount.token).toEqual(token0)
+      expect(outputAmount.raw.toString()).toEqual('19730587540768711')
+      expect(poolAfter.sqrtPriceX96.toString()).toEqual('80331913170932153199159657737')
+      expect(poolAfter.tickCurrent).toEqual(276)
+      expect(poolAfter.liquidity).toEqual(ONE_ETHER)
+    })
+
+    it('throws if the input amount exceeds the available liquidity', () => {
+      const shallowPool = new Pool(
+        token0,
+        token1,
+        FeeAmount.MEDIUM,
+        Q96,
+        ONE_ETHER,
+        new TickList({ ticks: [tick(-60, ONE_ETHER), tick(60, JSBI.multiply(ONE_ETHER, JSBI.BigInt(-1)))] })
+      )
+      expect(() =>
+        shallowPool.getOutputAmount(new TokenAmount(token0, JSBI.multiply(ONE_ETHER, JSBI.BigInt(1000))))
+      ).toThrow(InsufficientReservesError)
+    })
+  })
+
+  describe('#getInputAmount', () => {
+    it('crosses a tick to the left', () => {
+      const [inputAmount, poolAfter] = pool.getInputAmount(new TokenAmount(token1, '30000000000000000'))
+      expect(inputAmount.token).toEqual(token0)
+      expect(inputAmount.raw.toString()).toEqual('30494768886956720')
+      expect(poolAfter.sqrtPriceX96.toString()).toEqual('77799161821651149718649441046')
+      expect(poolAfter.tickCurrent).toEqual(-365)
+      expect(poolAfter.liquidity).toEqual(ONE_ETHER)
+    })
+
+    it('crosses a tick to the right', () => {
+      const [inputAmount, poolAfter] = pool.getInputAmount(new TokenAmount(token0, '20000000000000000'))
+      expect(inputAmount.token).toEqual(token1)
+      expect(inputAmount.raw.toString()).toEqual('20277880595769158')
+      expect(poolAfter.sqrtPriceX96.toString()).toEqual('80353863092026309054788598817')
+      expect(poolAfter.tickCurrent).toEqual(282)
+      expect(poolAfter.liquidity).toEqual(ONE_ETHER)
+    })
   })
 })
@@ -1,11 +1,16 @@
 import { defaultAbiCoder } from '@ethersproject/abi'
 import { getCreate2Address } from '@ethersproject/address'
 import { keccak256 } from '@ethersproject/solidity'
-import { BigintIsh, ChainId, Price, Token, TokenAmount } from '@uniswap/sdk-core'
+import { BigintIsh, ChainId, Price, Token, TokenAmount, validateAndParseAddress } from '@uniswap/sdk-core'
 import JSBI from 'jsbi'
 import invariant from 'tiny-invariant'
-import { FACTORY_ADDRESS, FeeAmount, INIT_CODE_HASH } from '../constants'
-import { TickList } from './tickList'
+import { FACTORY_ADDRESS, FeeAmount, INIT_CODE_HASH, NEGATIVE_ONE, ONE, Q192, TICK_SPACINGS, ZERO } from '../constants'
+import { InsufficientInputAmountError, InsufficientReservesError } from '../errors'
+import { SwapMath, TickMath, tickToPrice } from '../utils'
+import { Oracle, OracleJSON, OracleObservations } from './oracle'
+import { TickDataProvider } from './tickDataProvider'
+import { TickList, TickListJSON } from './tickList'
+import { TickListDataProvider } from './tickListDataProvider'
 
 export const computePoolAddress = ({
   factoryAddress,
@@ -29,35 +34,184 @@ export const computePoolAddress = ({
   )
 }
 
+/**
+ * The JSON representation of a token
+ */
+export interface TokenJSON {
+  chainId: number
+  address: string
+  decimals: number
+  symbol?: string
+  name?: string
+}
+
+/**
+ * The JSON representation of a pool, with all the JSBI values encoded as decimal strings. The version is incremented
+ * whenever the format changes in a way that older readers cannot load.
+ */
+export interface PoolJSON {
+  version: 1
+  token0: TokenJSON
+  token1: TokenJSON
+  fee: FeeAmount
+  sqrtPriceX96: string
+  liquidity: string
+  tickCurrent: number
+  ticks: TickListJSON
+  oracle?: OracleJSON
+}
+
+const POOL_JSON_VERSION = 1
+
+/**
+ * The state of a pool at the end of a swap
+ */
+interface SwapResult {
+  amountSpecifiedRemaining: JSBI
+  amountCalculated: JSBI
+  sqrtPriceX96: JSBI
+  liquidity: JSBI
+  tickCurrent: number
+}
+
+/**
+ * A lookup of the tick data needed to continue a swap, answered from the tick list for synchronous swaps and from the
+ * tick data provider for asynchronous swaps
+ */
+type TickDataRequest =
+  | { method: 'nextInitializedTickWithinOneWord'; tick: number; lte: boolean }
+  | { method: 'getTick'; tick: number }
+
+function tokenToJSON({ chainId, address, decimals, symbol, name }: Token): TokenJSON {
+  return { chainId, address, decimals, symbol, name }
+}
+
+function tokenFromJSON({ chainId, address, decimals, symbol, name }: TokenJSON): Token {
+  // addresses must be stored checksummed, so that a corrupted address is not mistaken for a different token
+  invariant(validateAndParseAddress(address) === address, 'CHECKSUM')
+  return new Token(chainId, address, decimals, symbol, name)
+}
+
+/**
+ * Represents a V3 pool, i.e. the current sqrt price, tick and in range liquidity of a pair of tokens at a fee level,
+ * along with the initialized ticks needed to simulate swaps against it
+ */
 export class Pool {
-  private readonly tokenAmounts: [TokenAmount, TokenAmount]
+  public readonly token0: Token
+  public readonly token1: Token
   private readonly fee: FeeAmount
-  private readonly sqrtPriceX96: JSBI
-  private readonly liquidity: JSBI
-  private readonly ticks: TickList
+  public readonly sqrtPriceX96: JSBI
+  public readonly liquidity: JSBI
+  public readonly tickCurrent: number
+  // the initialized ticks, if they are all held in memory
+  private readonly ticks?: TickList
+  /**
+   * The source of the initialized ticks consulted by the asynchronous swap simulations
+   */
+  public readonly tickDataProvider: TickDataProvider
+  /**
+   * The observations of the pool oracle, if they are known
+   */
+  public readonly oracle?: Oracle
+
+  // cached results for the getters
+  private _token0Price: Price | null = null
+  private _token1Price: Price | null = null
 
   public static getAddress(tokenA: Token, tokenB: Token, fee: FeeAmount): string {
     return computePoolAddress({ factoryAddress: FACTORY_ADDRESS, fee, tokenA, tokenB })
   }
 
+  /**
+   * Constructs a pool from its JSON representation, validating the tokens, the tick spacing of the ticks and the
+   * consistency of the liquidity with the ticks
+   * @param json the JSON representation of the pool
+   */
+  public static fromJSON(json: PoolJSON): Pool {
+    invariant(json.version === POOL_JSON_VERSION, 'VERSION')
+    const token0 = tokenFromJSON(json.token0)
+    const token1 = tokenFromJSON(json.token1)
+    invariant(token0.sortsBefore(token1), 'TOKEN_ORDER')
+    // the enum also maps the names of the fee amounts, which are not valid fees
+    invariant(typeof json.fee === 'number' && FeeAmount[json.fee] !== undefined, 'FEE')
+    return new Pool(
+      token0,
+      token1,
+      json.fee,
+      json.sqrtPriceX96,
+      json.liquidity,
+      TickList.fromJSON(json.ticks),
+      json.tickCurrent,
+      json.oracle === undefined ? undefined : Oracle.fromJSON(json.oracle)
+    )
+  }
+
+  /**
+   * Constructs a pool from its current state
+   * @param tokenA one of the tokens in the pool
+   * @param tokenB the other token in the pool
+   * @param fee the fee in hundredths of a bips of the input amount of every swap that is collected by the pool
+   * @param sqrtPriceX96 the sqrt of the current ratio of amounts of token1 to token0, as a Q64.96 number
+   * @param inRangeLiquidity the current value of in range liquidity
+   * @param initializedTicks the initialized ticks of the pool, or a provider that loads them on demand, in which case
+   * only the asynchronous swap simulations are available and the ticks cannot be validated up front
+   * @param tickCurrent the current tick of the pool, derived from the sqrt price if omitted
+   * @param oracle the observations of the pool oracle, needed for time weighted average prices
+   */
   public constructor(
-    tokenAmountA: TokenAmount,
-    tokenAmountB: TokenAmount,
+    tokenA: Token,
+    tokenB: Token,
     fee: FeeAmount,
     sqrtPriceX96: BigintIsh,
     inRangeLiquidity: BigintIsh,
-    initializedTicks: TickList
+    initializedTicks: TickList | TickDataProvider,
+    tickCurrent?: number,
+    oracle?: Oracle
   ) {
     invariant(Number.isInteger(fee), 'Fees can only be integer (uint24) values.')
-    invariant(Boolean(initializedTicks?.head), 'Must have at least one initialized tick.')
-    const tokenAmounts = tokenAmountA.token.sortsBefore(tokenAmountB.token) // does safety checks
-      ? [tokenAmountA, tokenAmountB]
-      : [tokenAmountB, tokenAmountA]
-    this.tokenAmounts = tokenAmounts as [TokenAmount, TokenAmount]
+    if (initializedTicks instanceof TickList) {
+      invariant(initializedTicks.length > 0, 'Must have at least one initialized tick.')
+      const tickSpacing = TICK_SPACINGS[fee]
+      invariant(
+        initializedTicks.values.every(({ index }) => index % tickSpacing === 0),
+        'TICK_SPACING'
+      )
+      this.ticks = initializedTicks
+      this.tickDataProvider = new TickListDataProvider(initializedTicks)
+    } else {
+      this.tickDataProvider = initializedTicks
+    }
+    const [token0, token1] = tokenA.sortsBefore(tokenB) ? [tokenA, tokenB] : [tokenB, tokenA] // does safety checks
+    this.token0 = token0
+    this.token1 = token1
     this.fee = fee
     this.sqrtPriceX96 = JSBI.BigInt(sqrtPriceX96)
-    this.ticks = initializedTicks
     this.liquidity = JSBI.BigInt(inRangeLiquidity)
+    this.oracle = oracle
+
+    if (tickCurrent === undefined) {
+      this.tickCurrent = TickMath.getTickAtSqrtRatio(this.sqrtPriceX96)
+    } else {
+      invariant(
+        Number.isInteger(tickCurrent) && tickCurrent >= TickMath.MIN_TICK && tickCurrent < TickMath.MAX_TICK,
+        'TICK'
+      )
+      // the price may sit exactly on the upper boundary of the current tick after a swap crosses a tick to the left
+      invariant(
+        JSBI.lessThanOrEqual(TickMath.getSqrtRatioAtTick(tickCurrent), this.sqrtPriceX96) &&
+          JSBI.lessThanOrEqual(this.sqrtPriceX96, TickMath.getSqrtRatioAtTick(tickCurrent + 1)),
+        'PRICE_BOUNDS'
+      )
+      this.tickCurrent = tickCurrent
+    }
+
+    if (this.ticks !== undefined) {
+      // the in range liquidity is the net liquidity of every tick that has been crossed from left to right
+      const liquidityAtTickCurrent = this.ticks.values
+        .filter(({ index }) => index <= this.tickCurrent)
+        .reduce((accumulator, { liquidityNet }) => JSBI.add(accumulator, liquidityNet), ZERO)
+      invariant(JSBI.equal(liquidityAtTickCurrent, this.liquidity), 'LIQUIDITY')
+    }
   }
 
   /**
@@ -69,19 +223,33 @@ export class Pool {
   }
 
   /**
-   * Returns the current mid price of the pool in terms of token0, i.e. the ratio of reserve1 to reserve0
+   * Returns the current mid price of the pool in terms of token0, i.e. the ratio of token1 over token0
    */
   public get token0Price(): Price {
-    invariant(this.sqrtPriceX96, 'todo')
-    return new Price(this.token0, this.token1, this.tokenAmounts[0].raw, this.tokenAmounts[1].raw)
+    return (
+      this._token0Price ??
+      (this._token0Price = new Price(
+        this.token0,
+        this.token1,
+        Q192,
+        JSBI.multiply(this.sqrtPriceX96, this.sqrtPriceX96)
+      ))
+    )
   }
 
   /**
-   * Returns the current mid price of the pool in terms of token1, i.e. the ratio of reserve0 to reserve1
+   * Returns the current mid price of the pool in terms of token1, i.e. the ratio of token0 over token1
    */
   public get token1Price(): Price {
-    invariant(this.sqrtPriceX96, 'todo')
-    return new Price(this.token1, this.token0, this.tokenAmounts[1].raw, this.tokenAmounts[0].raw)
+    return (
+      this._token1Price ??
+      (this._token1Price = new Price(
+        this.token1,
+        this.token0,
+        JSBI.multiply(this.sqrtPriceX96, this.sqrtPriceX96),
+        Q192
+      ))
+    )
   }
 
   /**
@@ -104,61 +272,302 @@ export class Pool {
     return this.fee
   }
 
-  public get inRangeLiquidity(): BigintIsh {
-    return this.liquidity.toString()
+  public get tickSpacing(): number {
+    return TICK_SPACINGS[this.fee]
   }
 
+  /**
+   * Returns the initialized ticks, which are only available if the pool was constructed with a tick list
+   */
   public get tickList(): TickList {
+    invariant(this.ticks !== undefined, 'TICK_LIST')
     return this.ticks
   }
 
-  public get token0(): Token {
-    return this.tokenAmounts[0].token
+  /**
+   * Returns the oracle accumulator values as of each time `secondsAgos` seconds before the current time
+   * @param time the current block timestamp
+   * @param secondsAgos how long ago to return each of the accumulator values
+   */
+  public observe(time: number, secondsAgos: number[]): OracleObservations {
+    invariant(this.oracle !== undefined, 'ORACLE')
+    return this.oracle.observe(time, secondsAgos, this.tickCurrent, this.liquidity)
   }
 
-  public get token1(): Token {
-    return this.tokenAmounts[1].token
+  /**
+   * Returns the time weighted average tick of the pool over the last `secondsAgo` seconds
+   * @param time the current block timestamp
+   * @param secondsAgo the length of the window that ends at the current time
+   */
+  public getTimeWeightedAverageTick(time: number, secondsAgo: number): number {
+    invariant(this.oracle !== undefined, 'ORACLE')
+    return this.oracle.getTimeWeightedAverageTick(time, secondsAgo, this.tickCurrent, this.liquidity)
   }
 
-  public get reserve0(): TokenAmount {
-    return this.tokenAmounts[0]
+  /**
+   * Returns the time weighted average price of the given token in terms of the other token in the pool over the last
+   * `secondsAgo` seconds
+   * @param token the token to return the price of
+   * @param time the current block timestamp
+   * @param secondsAgo the length of the window that ends at the current time
+   */
+  public getTimeWeightedAveragePrice(token: Token, time: number, secondsAgo: number): Price {
+    invariant(this.involvesToken(token), 'TOKEN')
+    const averageTick = this.getTimeWeightedAverageTick(time, secondsAgo)
+    return tickToPrice(token, token.equals(this.token0) ? this.token1 : this.token0, averageTick)
   }
 
-  public get reserve1(): TokenAmount {
-    return this.tokenAmounts[1]
-  }
-  public reserveOf(token: Token): TokenAmount {
-    invariant(this.involvesToken(token), 'TOKEN')
-    return token.equals(this.token0) ? this.reserve0 : this.reserve1
+  /**
+   * Returns a JSON serializable representation of the pool, which can be loaded with `Pool.fromJSON`
+   */
+  public toJSON(): PoolJSON {
+    return {
+      version: POOL_JSON_VERSION,
+      token0: tokenToJSON(this.token0),
+      token1: tokenToJSON(this.token1),
+      fee: this.fee,
+      sqrtPriceX96: this.sqrtPriceX96.toString(),
+      liquidity: this.liquidity.toString(),
+      tickCurrent: this.tickCurrent,
+      ticks: this.tickList.toJSON(),
+      ...(this.oracle === undefined ? {} : { oracle: this.oracle.toJSON() })
+    }
   }
 
+  /**
+   * Given an input amount of a token, return the computed output amount and a pool with state updated after the trade
+   * @param inputAmount the input amount for which to quote the output amount
+   */
   public getOutputAmount(inputAmount: TokenAmount): [TokenAmount, Pool] {
     invariant(this.involvesToken(inputAmount.token), 'TOKEN')
-    throw new Error('todo')
+
+    const zeroForOne = inputAmount.token.equals(this.token0)
+    return this.outputAmountAfterSwap(zeroForOne, this.swap(zeroForOne, inputAmount.raw))
+  }
+
+  /**
+   * Like `getOutputAmount`, but loads the ticks crossed by the swap from the tick data provider
+   * @param inputAmount the input amount for which to quote the output amount
+   */
+  public async getOutputAmountAsync(inputAmount: TokenAmount): Promise<[TokenAmount, Pool]> {
+    invariant(this.involvesToken(inputAmount.token), 'TOKEN')
+
+    const zeroForOne = inputAmount.token.equals(this.token0)
+    return this.outputAmountAfterSwap(zeroForOne, await this.swapAsync(zeroForOne, inputAmount.raw))
   }
 
+  /**
+   * Given a desired output amount of a token, return the computed input amount and a pool with state updated after
+   * the trade
+   * @param outputAmount the output amount for which to quote the input amount
+   */
   public getInputAmount(outputAmount: TokenAmount): [TokenAmount, Pool] {
     invariant(this.involvesToken(outputAmount.token), 'TOKEN')
-    throw new Error('todo')
+
+    const zeroForOne = outputAmount.token.equals(this.token1)
+    return this.inputAmountAfterSwap(zeroForOne, this.swap(zeroForOne, JSBI.multiply(outputAmount.raw, NEGATIVE_ONE)))
   }
 
-  public getLiquidityMinted(
-    _totalSupply: TokenAmount,
-    _tokenAmountA: TokenAmount,
-    _tokenAmountB: TokenAmount
-  ): TokenAmount {
-    throw new Error('todo')
+  /**
+   * Like `getInputAmount`, but loads the ticks crossed by the swap from the tick data provider
+   * @param outputAmount the output amount for which to quote the input amount
+   */
+  public async getInputAmountAsync(outputAmount: TokenAmount): Promise<[TokenAmount, Pool]> {
+    invariant(this.involvesToken(outputAmount.token), 'TOKEN')
+
+    const zeroForOne = outputAmount.token.equals(this.token1)
+    return this.inputAmountAfterSwap(
+      zeroForOne,
+      await this.swapAsync(zeroForOne, JSBI.multiply(outputAmount.raw, NEGATIVE_ONE))
+    )
   }
 
-  public getLiquidityValue(
-    token: Token,
-    totalSupply: TokenAmount,
-    liquidity: TokenAmount,
-    _: boolean = false,
-    __?: BigintIsh
-  ): TokenAmount {
-    invariant(this.involvesToken(token), 'TOKEN')
-    invariant(liquidity.raw <= totalSupply.raw, 'LIQUIDITY')
-    invariant(false, 'todo')
+  /**
+   * Returns the output amount of an exact input swap and the pool with state updated after the swap
+   */
+  private outputAmountAfterSwap(
+    zeroForOne: boolean,
+    { amountSpecifiedRemaining, amountCalculated, sqrtPriceX96, liquidity, tickCurrent }: SwapResult
+  ): [TokenAmount, Pool] {
+    // the price limit was reached before the full input amount could be swapped in
+    if (JSBI.notEqual(amountSpecifiedRemaining, ZERO)) {
+      throw new InsufficientReservesError()
+    }
+    const outputToken = zeroForOne ? this.token1 : this.token0
+    const outputAmount = new TokenAmount(outputToken, JSBI.multiply(amountCalculated, NEGATIVE_ONE))
+    if (JSBI.equal(outputAmount.raw, ZERO)) {
+      throw new InsufficientInputAmountError()
+    }
+
+    return [outputAmount, this.withState(sqrtPriceX96, liquidity, tickCurrent)]
+  }
+
+  /**
+   * Returns the input amount of an exact output swap and the pool with state updated after the swap
+   */
+  private inputAmountAfterSwap(
+    zeroForOne: boolean,
+    { amountSpecifiedRemaining, amountCalculated, sqrtPriceX96, liquidity, tickCurrent }: SwapResult
+  ): [TokenAmount, Pool] {
+    // the price limit was reached before the full output amount could be swapped out
+    if (JSBI.notEqual(amountSpecifiedRemaining, ZERO)) {
+      throw new InsufficientReservesError()
+    }
+    const inputToken = zeroForOne ? this.token0 : this.token1
+    const inputAmount = new TokenAmount(inputToken, amountCalculated)
+
+    return [inputAmount, this.withState(sqrtPriceX96, liquidity, tickCurrent)]
+  }
+
+  /**
+   * Returns the same pool with the given price, liquidity and tick, i.e. the pool after a swap. Skips the validation of
+   * the constructor, which is linear in the number of ticks, since the swap keeps the state consistent with the ticks
+   */
+  private withState(sqrtPriceX96: JSBI, liquidity: JSBI, tickCurrent: number): Pool {
+    return Object.assign(Object.create(Pool.prototype), this, {
+      sqrtPriceX96,
+      liquidity,
+      tickCurrent,
+      _token0Price: null,
+      _token1Price: null
+    })
+  }
+
+  /**
+   * Executes a swap against the tick list of the pool, mirroring UniswapV3Pool#swap
+   * @param zeroForOne whether the amount in is token0 or token1
+   * @param amountSpecified the amount of the swap, which implicitly configures the swap as exact input (positive), or
+   * exact output (negative)
+   * @param sqrtPriceLimitX96 the Q64.96 sqrt price limit, the swap stops once it is reached
+   */
+  private swap(zeroForOne: boolean, amountSpecified: JSBI, sqrtPriceLimitX96?: JSBI): SwapResult {
+    const ticks = this.tickList
+    const steps = this.swapSteps(zeroForOne, amountSpecified, sqrtPriceLimitX96)
+    let step = steps.next()
+    while (!step.done) {
+      const request = step.value
+      step = steps.next(
+        request.method === 'getTick'
+          ? ticks.getTick(request.tick).liquidityNet
+          : ticks.nextInitializedTickWithinOneWord(request.tick, request.lte, this.tickSpacing)
+      )
+    }
+    return step.value
+  }
+
+  /**
+   * Executes a swap like `swap`, loading the ticks from the tick data provider as they are reached
+   */
+  private async swapAsync(zeroForOne: boolean, amountSpecified: JSBI, sqrtPriceLimitX96?: JSBI): Promise<SwapResult> {
+    const steps = this.swapSteps(zeroForOne, amountSpecified, sqrtPriceLimitX96)
+    let step = steps.next()
+    while (!step.done) {
+      const request = step.value
+      step = steps.next(
+        request.method === 'getTick'
+          ? JSBI.BigInt((await this.tickDataProvider.getTick(request.tick)).liquidityNet)
+          : await this.tickDataProvider.nextInitializedTickWithinOneWord(request.tick, request.lte, this.tickSpacing)
+      )
+    }
+    return step.value
+  }
+
+  /**
+   * The swap loop shared by `swap` and `swapAsync`, which yields whenever it needs tick data and expects the answer to
+   * be passed back into `next`
+   */
+  private *swapSteps(
+    zeroForOne: boolean,
+    amountSpecified: JSBI,
+    sqrtPriceLimitX96?: JSBI
+  ): Generator<TickDataRequest, SwapResult, JSBI | [number, boolean]> {
+    invariant(JSBI.notEqual(amountSpecified, ZERO), 'AMOUNT')
+    const exactInput = JSBI.greaterThanOrEqual(amountSpecified, ZERO)
+
+    if (!sqrtPriceLimitX96)
+      sqrtPriceLimitX96 = zeroForOne
+        ? JSBI.add(TickMath.MIN_SQRT_RATIO, ONE)
+        : JSBI.subtract(TickMath.MAX_SQRT_RATIO, ONE)
+
+    if (zeroForOne) {
+      invariant(JSBI.greaterThan(sqrtPriceLimitX96, TickMath.MIN_SQRT_RATIO), 'RATIO_MIN')
+      invariant(JSBI.lessThan(sqrtPriceLimitX96, this.sqrtPriceX96), 'RATIO_CURRENT')
+    } else {
+      invariant(JSBI.lessThan(sqrtPriceLimitX96, TickMath.MAX_SQRT_RATIO), 'RATIO_MAX')
+      invariant(JSBI.greaterThan(sqrtPriceLimitX96, this.sqrtPriceX96), 'RATIO_CURRENT')
+    }
+
+    const state = {
+      amountSpecifiedRemaining: amountSpecified,
+      amountCalculated: ZERO,
+      sqrtPriceX96: this.sqrtPriceX96,
+      tick: this.tickCurrent,
+      liquidity: this.liquidity
+    }
+
+    while (
+      JSBI.notEqual(state.amountSpecifiedRemaining, ZERO) &&
+      JSBI.notEqual(state.sqrtPriceX96, sqrtPriceLimitX96)
+    ) {
+      const sqrtPriceStartX96 = state.sqrtPriceX96
+
+      let [tickNext, initialized] = (yield {
+        method: 'nextInitializedTickWithinOneWord',
+        tick: state.tick,
+        lte: zeroForOne
+      }) as [number, boolean]
+      // ensure that we do not overshoot the min/max tick, as the tick bitmap is not aware of these bounds
+      if (tickNext < TickMath.MIN_TICK) {
+        tickNext = TickMath.MIN_TICK
+      } else if (tickNext > TickMath.MAX_TICK) {
+        tickNext = TickMath.MAX_TICK
+      }
+
+      const sqrtPriceNextX96 = TickMath.getSqrtRatioAtTick(tickNext)
+      const [sqrtPriceX96, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(
+        state.sqrtPriceX96,
+        (zeroForOne
+        ? JSBI.lessThan(sqrtPriceNextX96, sqrtPriceLimitX96)
+        : JSBI.greaterThan(sqrtPriceNextX96, sqrtPriceLimitX96))
+          ? sqrtPriceLimitX96
+          : sqrtPriceNextX96,
+        state.liquidity,
+        state.amountSpecifiedRemaining,
+        this.fee
+      )
+
+      state.sqrtPriceX96 = sqrtPriceX96
+      if (exactInput) {
+        state.amountSpecifiedRemaining = JSBI.subtract(state.amountSpecifiedRemaining, JSBI.add(amountIn, feeAmount))
+        state.amountCalculated = JSBI.subtract(state.amountCalculated, amountOut)
+      } else {
+        state.amountSpecifiedRemaining = JSBI.add(state.amountSpecifiedRemaining, amountOut)
+        state.amountCalculated = JSBI.add(state.amountCalculated, JSBI.add(amountIn, feeAmount))
+      }
+
+      if (JSBI.equal(state.sqrtPriceX96, sqrtPriceNextX96)) {
+        // if the tick is initialized, run the tick transition
+        if (initialized) {
+          let liquidityNet = (yield { method: 'getTick', tick: tickNext }) as JSBI
+          // if we're moving leftward, we interpret liquidityNet as the opposite sign
+          if (zeroForOne) liquidityNet = JSBI.multiply(liquidityNet, NEGATIVE_ONE)
+          state.liquidity = JSBI.add(state.liquidity, liquidityNet)
+          invariant(JSBI.greaterThanOrEqual(state.liquidity, ZERO), 'LIQUIDITY')
+        }
+
+        state.tick = zeroForOne ? tickNext - 1 : tickNext
+      } else if (JSBI.notEqual(state.sqrtPriceX96, sqrtPriceStartX96)) {
+        // recompute unless we're on a lower tick boundary (i.e. already transitioned ticks), and haven't moved
+        state.tick = TickMath.getTickAtSqrtRatio(state.sqrtPriceX96)
+      }
+    }
+
+    return {
+      amountSpecifiedRemaining: state.amountSpecifiedRemaining,
+      amountCalculated: state.amountCalculated,
+      sqrtPriceX96: state.sqrtPriceX96,
+      liquidity: state.liquidity,
+      tickCurrent: state.tick
+    }
   }
 }
@@ -0,0 +1,230 @@
+import { ChainId, Token } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { FeeAmount, Q96 } from '../constants'
+import { Pool } from './pool'
+import { Position } from './position'
+import { TickMath } from '../utils'
+import { Tick } from './tick'
+import { TickList } from './tickList'
+
+describe('Position', () => {
+  const USDC = new Token(ChainId.MAINNET, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 'USDC', 'USD Coin')
+  const DAI = new Token(ChainId.MAINNET, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 18, 'DAI', 'DAI Stablecoin')
+  const ONE_ETHER = JSBI.exponentiate(JSBI.BigInt(10), JSBI.BigInt(18))
+  const POOL_TICKS = new TickList({
+    ticks: [
+      new Tick({
+        feeGrowthOutside0X128: 0,
+        feeGrowthOutside1X128: 0,
+        index: -887270,
+        liquidityNet: ONE_ETHER,
+        liquidityGross: ONE_ETHER
+      }),
+      new Tick({
+        feeGrowthOutside0X128: 0,
+        feeGrowthOutside1X128: 0,
+        index: 887270,
+        liquidityNet: JSBI.multiply(ONE_ETHER, JSBI.BigInt(-1)),
+        liquidityGross: ONE_ETHER
+      })
+    ]
+  })
+  // DAI is token0, USDC is token1, and the price is 1
+  const DAI_USDC_POOL = new Pool(DAI, USDC, FeeAmount.LOW, Q96, ONE_ETHER, POOL_TICKS)
+
+  describe('constructor', () => {
+    it('can be constructed around 0 tick', () => {
+      const position = new Position({ pool: DAI_USDC_POOL, liquidity: 1, tickLower: -10, tickUpper: 10 })
+      expect(position.liquidity).toEqual(JSBI.BigInt(1))
+    })
+
+    it('tickLower must be less than tickUpper', () => {
+      expect(() => new Position({ pool: DAI_USDC_POOL, liquidity: 1, tickLower: 10, tickUpper: -10 })).toThrow(
+        'TICK_ORDER'
+      )
+      expect(() => new Position({ pool: DAI_USDC_POOL, liquidity: 1, tickLower: 10, tickUpper: 10 })).toThrow(
+        'TICK_ORDER'
+      )
+    })
+
+    it('ticks must be multiples of the tick spacing', () => {
+      expect(() => new Position({ pool: DAI_USDC_POOL, liquidity: 1, tickLower: -5, tickUpper: 10 })).toThrow(
+        'TICK_LOWER'
+      )
+      expect(() => new Position({ pool: DAI_USDC_POOL, liquidity: 1, tickLower: -10, tickUpper: 15 })).toThrow(
+        'TICK_UPPER'
+      )
+    })
+
+    it('ticks must be within the tick bounds', () => {
+      expect(() => new Position({ pool: DAI_USDC_POOL, liquidity: 1, tickLower: -887280, tickUpper: 10 })).toThrow(
+        'TICK_LOWER'
+      )
+      expect(() => new Position({ pool: DAI_USDC_POOL, liquidity: 1, tickLower: -10, tickUpper: 887280 })).toThrow(
+        'TICK_UPPER'
+      )
+    })
+  })
+
+  describe('#amount0', () => {
+    it('is correct for price above', () => {
+      expect(
+        new Position({ pool: DAI_USDC_POOL, liquidity: ONE_ETHER, tickLower: -240, tickUpper: -120 }).amount0.raw
+      ).toEqual(JSBI.BigInt(0))
+    })
+
+    it('is correct for price below', () => {
+      expect(
+        new Position({ pool: DAI_USDC_POOL, liquidity: ONE_ETHER, tickLower: 120, tickUpper: 240 }).amount0.raw
+      ).toEqual(JSBI.BigInt('5945956573874155'))
+    })
+
+    it('is correct for in range position', () => {
+      expect(
+        new Position({ pool: DAI_USDC_POOL, liquidity: ONE_ETHER, tickLower: -120, tickUpper: 120 }).amount0.raw
+      ).toEqual(JSBI.BigInt('5981737760509662'))
+    })
+  })
+
+  describe('#amount1', () => {
+    it('is correct for price above', () => {
+      expect(
+        new Position({ pool: DAI_USDC_POOL, liquidity: ONE_ETHER, tickLower: -240, tickUpper: -120 }).amount1.raw
+      ).toEqual(JSBI.BigInt('5945956573874155'))
+    })
+
+    it('is correct for price below', () => {
+      expect(
+        new Position({ pool: DAI_USDC_POOL, liquidity: ONE_ETHER, tickLower: 120, tickUpper: 240 }).amount1.raw
+      ).toEqual(JSBI.BigInt(0))
+    })
+
+    it('is correct for in range position', () => {
+      expect(
+        new Position({ pool: DAI_USDC_POOL, liquidity: ONE_ETHER, tickLower: -120, tickUpper: 120 }).amount1.raw
+      ).toEqual(JSBI.BigInt('5981737760509662'))
+    })
+  })
+
+  describe('#mintAmounts', () => {
+    it('rounds up', () => {
+      const { amount0, amount1 } = new Position({
+        pool: DAI_USDC_POOL,
+        liquidity: ONE_ETHER,
+        tickLower: -120,
+        tickUpper: 120
+      }).mintAmounts
+      expect(amount0).toEqual(JSBI.BigInt('5981737760509663'))
+      expect(amount1).toEqual(JSBI.BigInt('5981737760509663'))
+    })
+  })
+
+  describe('#fromAmounts', () => {
+    it('computes the maximum liquidity for the amounts', () => {
+      const amount = JSBI.divide(ONE_ETHER, JSBI.BigInt(10))
+      const position = Position.fromAmounts({
+        pool: DAI_USDC_POOL,
+        tickLower: -120,
+        tickUpper: 120,
+        amount0: amount,
+        amount1: amount
+      })
+      expect(position.liquidity).toEqual(JSBI.BigInt('16717549983581976690'))
+      expect(JSBI.lessThanOrEqual(position.mintAmounts.amount0, amount)).toBe(true)
+      expect(JSBI.lessThanOrEqual(position.mintAmounts.amount1, amount)).toBe(true)
+    })
+
+    it('is limited by the scarcer token', () => {
+      const position = Position.fromAmounts({
+        pool: DAI_USDC_POOL,
+        tickLower: -120,
+        tickUpper: 120,
+        amount0: JSBI.divide(ONE_ETHER, JSBI.BigInt(10)),
+        amount1: JSBI.divide(ONE_ETHER, JSBI.BigInt(20))
+      })
+      expect(position.liquidity).toEqual(
+        Position.fromAmount1({
+          pool: DAI_USDC_POOL,
+          tickLower: -120,
+          tickUpper: 120,
+          amount1: JSBI.divide(ONE_ETHER, JSBI.BigInt(20))
+        }).liquidity
+      )
+    })
+  })
+
+  // the price sits on the upper boundary of the current tick, as after a swap that crosses tick 60 to the left
+  const POOL_AT_TICK_BOUNDARY = new Pool(
+    DAI,
+    USDC,
+    FeeAmount.LOW,
+    TickMath.getSqrtRatioAtTick(60),
+    ONE_ETHER,
+    POOL_TICKS,
+    59
+  )
+
+  describe('#fromAmount0', () => {
+    it('matches fromAmounts for a range below the price', () => {
+      const position = Position.fromAmount0({ pool: DAI_USDC_POOL, tickLower: 120, tickUpper: 240, amount0: ONE_ETHER })
+      expect(position.amount1.raw).toEqual(JSBI.BigInt(0))
+      expect(position.liquidity).toEqual(
+        Position.fromAmounts({ pool: DAI_USDC_POOL, tickLower: 120, tickUpper: 240, amount0: ONE_ETHER, amount1: 0 })
+          .liquidity
+      )
+    })
+
+    it('throws for a range above the price', () => {
+      expect(() =>
+        Position.fromAmount0({ pool: DAI_USDC_POOL, tickLower: -240, tickUpper: -120, amount0: ONE_ETHER })
+      ).toThrow('AMOUNT0')
+    })
+
+    it('throws for a range whose upper tick is at the price', () => {
+      expect(() =>
+        Position.fromAmount0({ pool: POOL_AT_TICK_BOUNDARY, tickLower: -60, tickUpper: 60, amount0: ONE_ETHER })
+      ).toThrow('AMOUNT0')
+    })
+  })
+
+  describe('#fromAmount1', () => {
+    it('matches fromAmounts for a range above the price', () => {
+      const position = Position.fromAmount1({
+        pool: DAI_USDC_POOL,
+        tickLower: -240,
+        tickUpper: -120,
+        amount1: ONE_ETHER
+      })
+      expect(position.amount0.raw).toEqual(JSBI.BigInt(0))
+      expect(position.liquidity).toEqual(
+        Position.fromAmounts({ pool: DAI_USDC_POOL, tickLower: -240, tickUpper: -120, amount0: 0, amount1: ONE_ETHER })
+          .liquidity
+      )
+    })
+
+    it('throws for a range below the price', () => {
+      expect(() =>
+        Position.fromAmount1({ pool: DAI_USDC_POOL, tickLower: 120, tickUpper: 240, amount1: ONE_ETHER })
+      ).toThrow('AMOUNT1')
+    })
+
+    it('matches fromAmounts for a range whose upper tick is at the price', () => {
+      const position = Position.fromAmount1({
+        pool: POOL_AT_TICK_BOUNDARY,
+        tickLower: -60,
+        tickUpper: 60,
+        amount1: ONE_ETHER
+      })
+      expect(position.amount0.raw).toEqual(JSBI.BigInt(0))
+      expect(position.liquidity).toEqual(
+        Position.fromAmounts({
+          pool: POOL_AT_TICK_BOUNDARY,
+          tickLower: -60,
+          tickUpper: 60,
+          amount0: 0,
+          amount1: ONE_ETHER
+        }).liquidity
+      )
+    })
+  })
+})
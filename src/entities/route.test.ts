@@ -1,46 +1,65 @@
-import { ChainId, ETHER, Token, TokenAmount, WETH9 } from '@uniswap/sdk-core'
+import { ChainId, ETHER, Token, WETH9 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
 import { FeeAmount } from '../constants'
 import { Pool } from './pool'
 import { Route } from './route'
 import { Tick } from './tick'
 import { TickList } from './tickList'
 
-describe.skip('Route', () => {
+describe('Route', () => {
   const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
   const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
   const weth = WETH9[ChainId.MAINNET]
-  const sqrtPriceX96Default = 20
+  const sqrtPriceX96Default = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(96))
   const inRangeLiquidityDefault = 0
   const tickMapDefault = new TickList({
     ticks: [
-      new Tick({ feeGrowthOutside0X128: 2, feeGrowthOutside1X128: 3, index: -2, liquidityNet: 0, liquidityGross: 0 }),
-      new Tick({ feeGrowthOutside0X128: 4, feeGrowthOutside1X128: 1, index: 2, liquidityNet: 0, liquidityGross: 0 })
+      new Tick({ feeGrowthOutside0X128: 2, feeGrowthOutside1X128: 3, index: -600, liquidityNet: 0, liquidityGross: 0 }),
+      new Tick({ feeGrowthOutside0X128: 4, feeGrowthOutside1X128: 1, index: 600, liquidityNet: 0, liquidityGross: 0 })
     ]
   })
   const pool_0_1 = new Pool(
-    new TokenAmount(token0, '100'),
-    new TokenAmount(token1, '200'),
+    token0,
+    token1,
     FeeAmount.MEDIUM,
     sqrtPriceX96Default,
     inRangeLiquidityDefault,
     tickMapDefault
   )
   const pool_0_weth = new Pool(
-    new TokenAmount(token0, '100'),
-    new TokenAmount(weth, '100'),
+    token0,
+    weth,
     FeeAmount.MEDIUM,
     sqrtPriceX96Default,
     inRangeLiquidityDefault,
     tickMapDefault
   )
   const pool_1_weth = new Pool(
-    new TokenAmount(token1, '175'),
-    new TokenAmount(weth, '100'),
+    token1,
+    weth,
     FeeAmount.MEDIUM,
     sqrtPriceX96Default,
     inRangeLiquidityDefault,
     tickMapDefault
   )
+  // the price of token0 in terms of token1 is 4
+  const pool_0_1_price_4 = new Pool(
+    token0,
+    token1,
+    FeeAmount.MEDIUM,
+    JSBI.multiply(sqrtPriceX96Default, JSBI.BigInt(2)),
+    inRangeLiquidityDefault,
+    tickMapDefault
+  )
+  // the price of weth in terms of token1 is 9
+  const pool_1_weth_price_9 = new Pool(
+    token1,
+    weth,
+    FeeAmount.MEDIUM,
+    JSBI.divide(sqrtPriceX96Default, JSBI.BigInt(3)),
+    inRangeLiquidityDefault,
+    tickMapDefault
+  )
 
   describe('path', () => {
     it('constructs a path from the tokens', () => {
@@ -79,4 +98,28 @@ describe.skip('Route', () => {
     expect(route.input).toEqual(token0)
     expect(route.output).toEqual(ETHER)
   })
+
+  describe('#midPrice', () => {
+    it('is the price of the pool for a single pool', () => {
+      const route = new Route([pool_0_1_price_4], token0)
+      expect(route.midPrice.baseCurrency).toEqual(token0)
+      expect(route.midPrice.quoteCurrency).toEqual(token1)
+      expect(route.midPrice.toFixed(4)).toEqual('4.0000')
+      expect(new Route([pool_0_1_price_4], token1).midPrice.toFixed(4)).toEqual('0.2500')
+    })
+
+    it('chains the prices of multiple pools', () => {
+      expect(new Route([pool_0_1_price_4, pool_1_weth_price_9], token0).midPrice.toFixed(4)).toEqual('0.4444')
+      expect(new Route([pool_1_weth_price_9, pool_0_1_price_4], weth).midPrice.toFixed(4)).toEqual('2.2500')
+    })
+
+    it('uses ether as the base and quote currency', () => {
+      expect(new Route([pool_1_weth_price_9, pool_0_1_price_4], ETHER).midPrice.baseCurrency).toEqual(ETHER)
+      expect(new Route([pool_0_1_price_4, pool_1_weth_price_9], token0, ETHER).midPrice.quoteCurrency).toEqual(ETHER)
+    })
+
+    it('is 1 for a route with the same input and output at the same prices', () => {
+      expect(new Route([pool_0_weth, pool_0_1, pool_1_weth], weth).midPrice.toFixed(4)).toEqual('1.0000')
+    })
+  })
 })
@@ -1,6 +1,6 @@
 import invariant from 'tiny-invariant'
 
-import { ChainId, Currency, ETHER, Token, WETH9 } from '@uniswap/sdk-core'
+import { ChainId, Currency, ETHER, Price, Token, WETH9 } from '@uniswap/sdk-core'
 import { Pool } from './pool'
 
 export class Route {
@@ -8,7 +8,7 @@ export class Route {
   public readonly tokenPath: Token[]
   public readonly input: Currency
   public readonly output: Currency
-  // public readonly midPrice: Price
+  public readonly midPrice: Price
 
   public constructor(pools: Pool[], input: Currency, output?: Currency) {
     invariant(pools.length > 0, 'POOLS: none provided')
@@ -48,6 +48,11 @@ export class Route {
     this.tokenPath = tokenPath
     this.input = input
     this.output = output ?? tokenPath[tokenPath.length - 1]
+
+    // chain the price of each pool's input token in terms of its output token along the path
+    const prices = pools.map((pool, i) => pool.priceOf(tokenPath[i]))
+    const price = prices.slice(1).reduce((accumulator, currentValue) => accumulator.multiply(currentValue), prices[0])
+    this.midPrice = new Price(this.input, this.output, price.denominator, price.numerator)
   }
 
   public get chainId(): ChainId | number {
@@ -0,0 +1,232 @@
+import { ChainId, CurrencyAmount, ETHER, Percent, Token, TokenAmount, TradeType, WETH9 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { FeeAmount, Q96 } from '../constants'
+import { makeFullRangePool } from '../testUtils'
+import { Pool } from './pool'
+import { Route } from './route'
+import { SplitTrade } from './splitTrade'
+import { Tick } from './tick'
+import { TickList } from './tickList'
+import { Trade } from './trade'
+
+describe('SplitTrade', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+  const weth = WETH9[ChainId.MAINNET]
+
+  const pool_0_1_medium = makeFullRangePool(token0, token1, FeeAmount.MEDIUM)
+  const pool_0_1_low = makeFullRangePool(token0, token1, FeeAmount.LOW)
+  const pool_0_2 = makeFullRangePool(token0, token2, FeeAmount.MEDIUM)
+  const pool_weth_0 = makeFullRangePool(weth, token0, FeeAmount.MEDIUM)
+
+  const largeAmount = '100000000000000000'
+
+  // a deep pool whose liquidity is concentrated around the current price
+  const liquidity = JSBI.BigInt('1000000000000000000')
+  const concentrated = new Pool(
+    token0,
+    token1,
+    FeeAmount.LOW,
+    Q96,
+    liquidity,
+    new TickList({
+      ticks: [
+        new Tick({
+          feeGrowthOutside0X128: 0,
+          feeGrowthOutside1X128: 0,
+          index: -60,
+          liquidityNet: liquidity,
+          liquidityGross: liquidity
+        }),
+        new Tick({
+          feeGrowthOutside0X128: 0,
+          feeGrowthOutside1X128: 0,
+          index: 60,
+          liquidityNet: JSBI.multiply(liquidity, JSBI.BigInt(-1)),
+          liquidityGross: liquidity
+        })
+      ]
+    })
+  )
+
+  describe('#constructor', () => {
+    it('sums the amounts of the legs', () => {
+      const trade = SplitTrade.exactIn([
+        { route: new Route([pool_0_1_medium], token0), amount: new TokenAmount(token0, 1000) },
+        { route: new Route([pool_0_1_low], token0), amount: new TokenAmount(token0, 2000) }
+      ])
+      expect(trade.tradeType).toEqual(TradeType.EXACT_INPUT)
+      expect(trade.trades).toHaveLength(2)
+      expect(trade.inputAmount).toEqual(new TokenAmount(token0, 3000))
+      expect(trade.outputAmount.raw.toString()).toEqual(
+        JSBI.add(trade.trades[0].outputAmount.raw, trade.trades[1].outputAmount.raw).toString()
+      )
+      expect(trade.executionPrice.raw.toSignificant(6)).toEqual(
+        trade.outputAmount.divide(trade.inputAmount).toSignificant(6)
+      )
+    })
+
+    it('executes each leg against the pool state left by the previous legs', () => {
+      const route = new Route([pool_0_1_medium], token0)
+      const amount = new TokenAmount(token0, largeAmount)
+      const trade = SplitTrade.exactIn([
+        { route, amount },
+        { route, amount }
+      ])
+      expect(trade.trades[0].outputAmount).toEqual(Trade.exactIn(route, amount).outputAmount)
+      expect(trade.trades[1].outputAmount.lessThan(trade.trades[0].outputAmount)).toBe(true)
+      expect(trade.trades[0].poolsAfter[0].sqrtPriceX96).toEqual(
+        pool_0_1_medium.getOutputAmount(amount)[1].sqrtPriceX96
+      )
+    })
+
+    it('shares pool state across different routes', () => {
+      const amount = new TokenAmount(token2, largeAmount)
+      const route = new Route([pool_0_2, pool_0_1_low], token2)
+      const trade = SplitTrade.exactIn([
+        { route: new Route([pool_0_2, pool_0_1_medium], token2), amount },
+        { route, amount }
+      ])
+      expect(trade.trades[1].outputAmount.lessThan(Trade.exactIn(route, amount).outputAmount)).toBe(true)
+      expect(trade.trades[1].route.pools[1]).toBe(pool_0_1_low)
+    })
+
+    it('supports ether', () => {
+      const trade = SplitTrade.exactOut([
+        { route: new Route([pool_0_1_medium, pool_weth_0], token1, ETHER), amount: CurrencyAmount.ether(1000) },
+        { route: new Route([pool_0_1_low, pool_weth_0], token1, ETHER), amount: CurrencyAmount.ether(1000) }
+      ])
+      expect(trade.outputAmount).toEqual(CurrencyAmount.ether(2000))
+      expect(trade.inputAmount.currency).toEqual(token1)
+    })
+
+    it('throws without legs', () => {
+      expect(() => SplitTrade.exactIn([])).toThrow('LEGS')
+    })
+
+    it('throws if the legs do not share the input and output', () => {
+      expect(() =>
+        SplitTrade.exactIn([
+          { route: new Route([pool_0_1_medium], token0), amount: new TokenAmount(token0, 1000) },
+          { route: new Route([pool_0_1_low], token1), amount: new TokenAmount(token1, 1000) }
+        ])
+      ).toThrow('INPUT_CURRENCY')
+      expect(() =>
+        SplitTrade.exactIn([
+          { route: new Route([pool_0_1_medium], token0), amount: new TokenAmount(token0, 1000) },
+          { route: new Route([pool_0_2], token0), amount: new TokenAmount(token0, 1000) }
+        ])
+      ).toThrow('OUTPUT_CURRENCY')
+    })
+  })
+
+  describe('#priceImpact', () => {
+    it('is lower than the price impact of a single route', () => {
+      const amount = new TokenAmount(token0, largeAmount)
+      const single = Trade.exactIn(new Route([pool_0_1_medium], token0), amount)
+      const split = SplitTrade.exactIn([
+        { route: new Route([pool_0_1_medium], token0), amount: new TokenAmount(token0, '50000000000000000') },
+        { route: new Route([pool_0_1_low], token0), amount: new TokenAmount(token0, '50000000000000000') }
+      ])
+      expect(split.priceImpact.lessThan(single.priceImpact)).toBe(true)
+      expect(split.priceImpact.greaterThan(new Percent(0))).toBe(true)
+    })
+  })
+
+  describe('#minimumAmountOut', () => {
+    it('applies the slippage tolerance to the total output', () => {
+      const trade = SplitTrade.exactIn([
+        { route: new Route([pool_0_1_medium], token0), amount: new TokenAmount(token0, 1000) },
+        { route: new Route([pool_0_1_low], token0), amount: new TokenAmount(token0, 1000) }
+      ])
+      expect(trade.minimumAmountOut(new Percent(0))).toEqual(trade.outputAmount)
+      expect(trade.minimumAmountOut(new Percent(1, 100)).raw.toString()).toEqual(
+        JSBI.divide(JSBI.multiply(trade.outputAmount.raw, JSBI.BigInt(100)), JSBI.BigInt(101)).toString()
+      )
+      expect(trade.maximumAmountIn(new Percent(1, 100))).toEqual(trade.inputAmount)
+    })
+  })
+
+  describe('#bestSplitTradeExactIn', () => {
+    it('splits a large amount across pools', () => {
+      const amountIn = new TokenAmount(token0, largeAmount)
+      const [best] = Trade.bestTradeExactIn([pool_0_1_medium, pool_0_1_low], amountIn, token1)
+      const trade = SplitTrade.bestSplitTradeExactIn([pool_0_1_medium, pool_0_1_low], amountIn, token1)!
+      expect(trade.trades).toHaveLength(2)
+      expect(trade.inputAmount).toEqual(amountIn)
+      expect(trade.outputAmount.greaterThan(best.outputAmount)).toBe(true)
+      // the quote is that of executing the legs in order
+      const legs = trade.trades.map(({ route, inputAmount }) => ({ route, amount: inputAmount }))
+      expect(SplitTrade.exactIn(legs).outputAmount).toEqual(trade.outputAmount)
+    })
+
+    it('routes everything through the cheapest pool for a small amount', () => {
+      const amountIn = new TokenAmount(token0, 1000000)
+      const trade = SplitTrade.bestSplitTradeExactIn([pool_0_1_medium, pool_0_1_low], amountIn, token1)!
+      expect(trade.trades).toHaveLength(1)
+      expect(trade.trades[0].route.pools[0].feeLevel).toEqual(FeeAmount.LOW)
+    })
+
+    it('uses a single bucket for a distribution of 100 percent', () => {
+      const amountIn = new TokenAmount(token0, largeAmount)
+      const [best] = Trade.bestTradeExactIn([pool_0_1_medium, pool_0_1_low], amountIn, token1)
+      const trade = SplitTrade.bestSplitTradeExactIn([pool_0_1_medium, pool_0_1_low], amountIn, token1, {
+        distributionPercent: 100
+      })!
+      expect(trade.trades).toHaveLength(1)
+      expect(trade.outputAmount).toEqual(best.outputAmount)
+    })
+
+    it('works for ether input', () => {
+      const trade = SplitTrade.bestSplitTradeExactIn(
+        [pool_weth_0, pool_0_1_medium],
+        CurrencyAmount.ether(1000000),
+        token1
+      )!
+      expect(trade.inputAmount).toEqual(CurrencyAmount.ether(1000000))
+      expect(trade.outputAmount.currency).toEqual(token1)
+    })
+
+    it('uses a pool that runs out of liquidity for the whole amount for a part of it', () => {
+      const amountIn = new TokenAmount(token0, '10000000000000000')
+      expect(Trade.bestTradeExactIn([concentrated], amountIn, token1)).toHaveLength(0)
+      const trade = SplitTrade.bestSplitTradeExactIn([pool_0_1_medium, concentrated], amountIn, token1)!
+      expect(trade.trades).toHaveLength(2)
+      expect(trade.inputAmount).toEqual(amountIn)
+    })
+
+    it('returns undefined if there is no route', () => {
+      expect(SplitTrade.bestSplitTradeExactIn([pool_0_1_medium], new TokenAmount(token0, 1000), token2)).toBeUndefined()
+    })
+
+    it('throws for an invalid distribution', () => {
+      expect(() =>
+        SplitTrade.bestSplitTradeExactIn([pool_0_1_medium], new TokenAmount(token0, 1000), token1, {
+          distributionPercent: 3
+        })
+      ).toThrow('DISTRIBUTION_PERCENT')
+    })
+  })
+
+  describe('#bestSplitTradeExactOut', () => {
+    it('splits a large amount across pools', () => {
+      const amountOut = new TokenAmount(token1, largeAmount)
+      const [best] = Trade.bestTradeExactOut([pool_0_1_medium, pool_0_1_low], token0, amountOut)
+      const trade = SplitTrade.bestSplitTradeExactOut([pool_0_1_medium, pool_0_1_low], token0, amountOut)!
+      expect(trade.trades).toHaveLength(2)
+      expect(trade.outputAmount).toEqual(amountOut)
+      expect(trade.inputAmount.lessThan(best.inputAmount)).toBe(true)
+      const legs = trade.trades.map(({ route, outputAmount }) => ({ route, amount: outputAmount }))
+      expect(SplitTrade.exactOut(legs).inputAmount).toEqual(trade.inputAmount)
+    })
+
+    it('uses a pool that cannot fill the whole amount for a part of it', () => {
+      const amountOut = new TokenAmount(token1, '10000000000000000')
+      expect(Trade.bestTradeExactOut([concentrated], token0, amountOut)).toHaveLength(0)
+      const trade = SplitTrade.bestSplitTradeExactOut([pool_0_1_medium, concentrated], token0, amountOut)!
+      expect(trade.trades).toHaveLength(2)
+      expect(trade.outputAmount).toEqual(amountOut)
+    })
+  })
+})
@@ -0,0 +1,263 @@
+import { Currency, CurrencyAmount, currencyEquals, Fraction, Percent, Price, TradeType } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { ZERO } from '../constants'
+import { currencyAmount, maximumAmountIn, minimumAmountOut } from '../utils/slippage'
+import { ExecutionContext } from './executionContext'
+import { Pool } from './pool'
+import { Route } from './route'
+import { Trade } from './trade'
+
+/**
+ * A part of a split trade, i.e. the amount that is swapped through one of the routes.
+ */
+export interface SplitTradeLeg {
+  // the route of this part of the trade
+  route: Route
+  // the exact input amount, or the exact output amount, of this part of the trade
+  amount: CurrencyAmount
+}
+
+export interface BestSplitTradeOptions {
+  // the percentage of the amount in each bucket that is assigned to a route, must divide 100
+  distributionPercent?: number
+  // the maximum number of routes to split the amount across
+  maxRoutes?: number
+  // the maximum number of hops a route should contain
+  maxHops?: number
+}
+
+/**
+ * Represents a trade that is split across multiple routes, where each part of the trade is executed after the
+ * previous ones, i.e. against the pool state they leave behind.
+ * Does not account for slippage, i.e. trades that front run this trade and move the price.
+ */
+export class SplitTrade {
+  /**
+   * The parts of the trade, in order of execution.
+   */
+  public readonly trades: Trade[]
+  /**
+   * The type of the trade, either exact in or exact out.
+   */
+  public readonly tradeType: TradeType
+  /**
+   * The total input amount for the trade assuming no slippage.
+   */
+  public readonly inputAmount: CurrencyAmount
+  /**
+   * The total output amount for the trade assuming no slippage.
+   */
+  public readonly outputAmount: CurrencyAmount
+  /**
+   * The price expressed in terms of output amount/input amount.
+   */
+  public readonly executionPrice: Price
+  /**
+   * The percent difference between the output amount at the mid prices of the routes before the trade and the
+   * output amount of the trade.
+   */
+  public readonly priceImpact: Percent
+
+  /**
+   * Constructs an exact in trade from the given routes and amounts in
+   * @param legs the routes and the amounts passed in through each of them
+   */
+  public static exactIn(legs: SplitTradeLeg[]): SplitTrade {
+    return new SplitTrade(legs, TradeType.EXACT_INPUT)
+  }
+
+  /**
+   * Constructs an exact out trade from the given routes and amounts out
+   * @param legs the routes and the amounts returned through each of them
+   */
+  public static exactOut(legs: SplitTradeLeg[]): SplitTrade {
+    return new SplitTrade(legs, TradeType.EXACT_OUTPUT)
+  }
+
+  public constructor(legs: SplitTradeLeg[], tradeType: TradeType) {
+    invariant(legs.length > 0, 'LEGS')
+    const { input, output } = legs[0].route
+    invariant(
+      legs.every(({ route }) => currencyEquals(route.input, input)),
+      'INPUT_CURRENCY'
+    )
+    invariant(
+      legs.every(({ route }) => currencyEquals(route.output, output)),
+      'OUTPUT_CURRENCY'
+    )
+
+    let executionContext = new ExecutionContext()
+    this.trades = legs.map(({ route, amount }) => {
+      const trade = new Trade(route, amount, tradeType, executionContext)
+      executionContext = trade.executionContext
+      return trade
+    })
+
+    this.tradeType = tradeType
+    this.inputAmount = this.trades
+      .slice(1)
+      .reduce((total, trade) => total.add(trade.inputAmount), this.trades[0].inputAmount)
+    this.outputAmount = this.trades
+      .slice(1)
+      .reduce((total, trade) => total.add(trade.outputAmount), this.trades[0].outputAmount)
+    this.executionPrice = new Price(
+      this.inputAmount.currency,
+      this.outputAmount.currency,
+      this.inputAmount.raw,
+      this.outputAmount.raw
+    )
+
+    // each part of the trade is quoted at the mid price of its own route
+    const exactQuote = this.trades.reduce(
+      (total, trade) => total.add(trade.route.midPrice.raw.multiply(trade.inputAmount.raw)),
+      new Fraction(ZERO)
+    )
+    const slippage = exactQuote.subtract(this.outputAmount.raw).divide(exactQuote)
+    this.priceImpact = new Percent(slippage.numerator, slippage.denominator)
+  }
+
+  /**
+   * Get the minimum amount that must be received from this trade for the given slippage tolerance
+   * @param slippageTolerance tolerance of unfavorable slippage from the execution price of this trade
+   */
+  public minimumAmountOut(slippageTolerance: Percent): CurrencyAmount {
+    return minimumAmountOut(this, slippageTolerance)
+  }
+
+  /**
+   * Get the maximum amount in that can be spent via this trade for the given slippage tolerance
+   * @param slippageTolerance tolerance of unfavorable slippage from the execution price of this trade
+   */
+  public maximumAmountIn(slippageTolerance: Percent): CurrencyAmount {
+    return maximumAmountIn(this, slippageTolerance)
+  }
+
+  /**
+   * Given a list of pools, and a fixed amount in, returns the trade that splits the amount in across the best routes
+   * from the input token to an output token, or undefined if the amount cannot be swapped.
+   * The amount is divided into buckets of `distributionPercent` percent, and each bucket is assigned to the candidate
+   * route for which the trade, along with the buckets already assigned, returns the most output.
+   * @param pools the pools to consider in finding the best trade
+   * @param currencyAmountIn exact amount of input currency to spend
+   * @param currencyOut the desired currency out
+   * @param distributionPercent the percentage of the amount in each bucket
+   * @param maxRoutes maximum number of candidate routes to split the amount across
+   * @param maxHops maximum number of hops a route can make, e.g. 1 hop goes through a single pool
+   */
+  public static bestSplitTradeExactIn(
+    pools: Pool[],
+    currencyAmountIn: CurrencyAmount,
+    currencyOut: Currency,
+    { distributionPercent = 5, maxRoutes = 3, maxHops = 3 }: BestSplitTradeOptions = {}
+  ): SplitTrade | undefined {
+    invariant(Number.isInteger(distributionPercent) && 100 % distributionPercent === 0, 'DISTRIBUTION_PERCENT')
+    // routes that run out of liquidity for the whole amount in may still swap a part of it
+    const bucketAmountIn = currencyAmount(
+      currencyAmountIn.currency,
+      JSBI.divide(JSBI.multiply(currencyAmountIn.raw, JSBI.BigInt(distributionPercent)), JSBI.BigInt(100))
+    )
+    const routes = Trade.bestTradeExactIn(
+      pools,
+      JSBI.greaterThan(bucketAmountIn.raw, ZERO) ? bucketAmountIn : currencyAmountIn,
+      currencyOut,
+      { maxNumResults: maxRoutes, maxHops }
+    ).map(trade => trade.route)
+    return SplitTrade.bestSplitTrade(routes, currencyAmountIn, TradeType.EXACT_INPUT, distributionPercent)
+  }
+
+  /**
+   * Similar to the above method but instead targets a fixed output amount, assigning each bucket of the amount out to
+   * the candidate route for which the trade, along with the buckets already assigned, requires the least input.
+   * @param pools the pools to consider in finding the best trade
+   * @param currencyIn the currency to spend
+   * @param currencyAmountOut the exact amount of currency out
+   * @param distributionPercent the percentage of the amount in each bucket
+   * @param maxRoutes maximum number of candidate routes to split the amount across
+   * @param maxHops maximum number of hops a route can make, e.g. 1 hop goes through a single pool
+   */
+  public static bestSplitTradeExactOut(
+    pools: Pool[],
+    currencyIn: Currency,
+    currencyAmountOut: CurrencyAmount,
+    { distributionPercent = 5, maxRoutes = 3, maxHops = 3 }: BestSplitTradeOptions = {}
+  ): SplitTrade | undefined {
+    invariant(Number.isInteger(distributionPercent) && 100 % distributionPercent === 0, 'DISTRIBUTION_PERCENT')
+    // routes that cannot fill the whole amount out may still fill a part of it
+    const bucketAmountOut = currencyAmount(
+      currencyAmountOut.currency,
+      JSBI.divide(JSBI.multiply(currencyAmountOut.raw, JSBI.BigInt(distributionPercent)), JSBI.BigInt(100))
+    )
+    const routes = Trade.bestTradeExactOut(
+      pools,
+      currencyIn,
+      JSBI.greaterThan(bucketAmountOut.raw, ZERO) ? bucketAmountOut : currencyAmountOut,
+      { maxNumResults: maxRoutes, maxHops }
+    ).map(trade => trade.route)
+    return SplitTrade.bestSplitTrade(routes, currencyAmountOut, TradeType.EXACT_OUTPUT, distributionPercent)
+  }
+
+  /**
+   * Assigns each bucket of the amount to the route that gives the best trade, and returns that trade.
+   * Each candidate assignment is simulated as the whole split trade, i.e. with one leg per route executing in the order
+   * of the routes, so the returned trade is exactly the one the buckets were assigned against.
+   * @param routes the candidate routes
+   * @param amount the exact input amount, or the exact output amount, of the trade
+   * @param tradeType whether the trade is exact input or exact output
+   * @param distributionPercent the percentage of the amount in each bucket
+   */
+  private static bestSplitTrade(
+    routes: Route[],
+    amount: CurrencyAmount,
+    tradeType: TradeType,
+    distributionPercent: number
+  ): SplitTrade | undefined {
+    if (routes.length === 0) return undefined
+
+    const buckets = 100 / distributionPercent
+    let allocations: JSBI[] = routes.map(() => ZERO)
+    let best: SplitTrade | undefined
+    for (let i = 0; i < buckets; i++) {
+      // the buckets add up to the amount exactly, the rounding error is spread across them
+      const bucket = JSBI.subtract(
+        JSBI.divide(JSBI.multiply(amount.raw, JSBI.BigInt(i + 1)), JSBI.BigInt(buckets)),
+        JSBI.divide(JSBI.multiply(amount.raw, JSBI.BigInt(i)), JSBI.BigInt(buckets))
+      )
+      if (JSBI.equal(bucket, ZERO)) continue
+
+      let bestCandidate: { allocations: JSBI[]; trade: SplitTrade } | undefined
+      for (let j = 0; j < routes.length; j++) {
+        const candidateAllocations = allocations.map((allocation, k) =>
+          k === j ? JSBI.add(allocation, bucket) : allocation
+        )
+        const legs = routes
+          .map((route, k) => ({ route, amount: currencyAmount(amount.currency, candidateAllocations[k]) }))
+          .filter(({ amount }) => JSBI.greaterThan(amount.raw, ZERO))
+        let trade: SplitTrade
+        try {
+          trade = new SplitTrade(legs, tradeType)
+        } catch (error) {
+          // the allocation is too small for, or exceeds the liquidity of, this route
+          if (error.isInsufficientInputAmountError || error.isInsufficientReservesError) {
+            continue
+          }
+          throw error
+        }
+        const isBetter =
+          bestCandidate === undefined ||
+          (tradeType === TradeType.EXACT_INPUT
+            ? trade.outputAmount.greaterThan(bestCandidate.trade.outputAmount)
+            : trade.inputAmount.lessThan(bestCandidate.trade.inputAmount))
+        if (isBetter) {
+          bestCandidate = { allocations: candidateAllocations, trade }
+        }
+      }
+      // no route can swap this part of the amount
+      if (bestCandidate === undefined) return undefined
+
+      allocations = bestCandidate.allocations
+      best = bestCandidate.trade
+    }
+    return best
+  }
+}
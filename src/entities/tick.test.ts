@@ -0,0 +1,93 @@
+import JSBI from 'jsbi'
+import { MAX_TICK, MIN_TICK } from '../constants'
+import { Tick, TickJSON } from './tick'
+
+describe('Tick', () => {
+  const tickArgs = {
+    feeGrowthOutside0X128: 2,
+    feeGrowthOutside1X128: 3,
+    index: 10,
+    liquidityGross: 5,
+    liquidityNet: -5
+  }
+
+  describe('constructor', () => {
+    it('exposes the tick values as JSBI', () => {
+      const tick = new Tick(tickArgs)
+      expect(tick.index).toEqual(10)
+      expect(tick.feeGrowthOutside0X128).toEqual(JSBI.BigInt(2))
+      expect(tick.feeGrowthOutside1X128).toEqual(JSBI.BigInt(3))
+      expect(tick.liquidityGross).toEqual(JSBI.BigInt(5))
+      expect(tick.liquidityNet).toEqual(JSBI.BigInt(-5))
+    })
+
+    it('can be constructed at the min and max tick', () => {
+      expect(new Tick({ ...tickArgs, index: MIN_TICK }).index).toEqual(MIN_TICK)
+      expect(new Tick({ ...tickArgs, index: MAX_TICK }).index).toEqual(MAX_TICK)
+    })
+
+    it('throws if the index is out of bounds', () => {
+      expect(() => new Tick({ ...tickArgs, index: MIN_TICK - 1 })).toThrow('TICK')
+      expect(() => new Tick({ ...tickArgs, index: MAX_TICK + 1 })).toThrow('TICK')
+    })
+
+    it('throws if the index is not an integer', () => {
+      expect(() => new Tick({ ...tickArgs, index: 1.5 })).toThrow('TICK')
+    })
+
+    it('throws if liquidity gross is less than the absolute liquidity net', () => {
+      expect(() => new Tick({ ...tickArgs, liquidityNet: 6 })).toThrow('LIQUIDITY_NET')
+      expect(() => new Tick({ ...tickArgs, liquidityNet: -6 })).toThrow('LIQUIDITY_NET')
+    })
+  })
+
+  describe('#equals', () => {
+    it('is true for equivalent ticks', () => {
+      expect(new Tick(tickArgs).equals(new Tick({ ...tickArgs, liquidityGross: '5' }))).toBe(true)
+    })
+
+    it('is false if any value differs', () => {
+      const tick = new Tick(tickArgs)
+      expect(tick.equals(new Tick({ ...tickArgs, index: 20 }))).toBe(false)
+      expect(tick.equals(new Tick({ ...tickArgs, liquidityGross: 6 }))).toBe(false)
+      expect(tick.equals(new Tick({ ...tickArgs, liquidityNet: 5 }))).toBe(false)
+      expect(tick.equals(new Tick({ ...tickArgs, feeGrowthOutside0X128: 0 }))).toBe(false)
+      expect(tick.equals(new Tick({ ...tickArgs, feeGrowthOutside1X128: 0 }))).toBe(false)
+    })
+  })
+
+  describe('#toJSON', () => {
+    it('encodes the values as strings', () => {
+      expect(new Tick(tickArgs).toJSON()).toEqual({
+        version: 1,
+        feeGrowthOutside0X128: '2',
+        feeGrowthOutside1X128: '3',
+        index: 10,
+        liquidityGross: '5',
+        liquidityNet: '-5'
+      })
+    })
+
+    it('round trips through the constructor', () => {
+      const tick = new Tick(tickArgs)
+      expect(new Tick(JSON.parse(JSON.stringify(tick))).equals(tick)).toBe(true)
+    })
+  })
+
+  describe('#fromJSON', () => {
+    it('round trips through toJSON', () => {
+      const tick = new Tick(tickArgs)
+      expect(Tick.fromJSON(tick.toJSON()).equals(tick)).toBe(true)
+    })
+
+    it('validates the tick', () => {
+      expect(() => Tick.fromJSON({ ...new Tick(tickArgs).toJSON(), index: 1.5 })).toThrow('TICK')
+    })
+
+    it('throws for an unknown version', () => {
+      expect(() => Tick.fromJSON(({ ...new Tick(tickArgs).toJSON(), version: 2 } as unknown) as TickJSON)).toThrow(
+        'VERSION'
+      )
+    })
+  })
+})
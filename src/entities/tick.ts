@@ -1,5 +1,8 @@
 import { BigintIsh } from '@uniswap/sdk-core'
 import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { NEGATIVE_ONE, ZERO } from '../constants'
+import { TickMath } from '../utils'
 
 interface TickConstructorArgs {
   feeGrowthOutside0X128: BigintIsh
@@ -9,12 +12,50 @@ interface TickConstructorArgs {
   liquidityNet: BigintIsh
 }
 
+/**
+ * The JSON representation of a tick, with all the JSBI values encoded as decimal strings. The version is incremented
+ * whenever the format changes in a way that older readers cannot load.
+ */
+export interface TickJSON {
+  version: 1
+  feeGrowthOutside0X128: string
+  feeGrowthOutside1X128: string
+  index: number
+  liquidityGross: string
+  liquidityNet: string
+}
+
+const TICK_JSON_VERSION = 1
+
 export class Tick {
   private readonly i: number
-  private readonly feeGrowthOutside0X128: JSBI
-  private readonly feeGrowthOutside1X128: JSBI
-  private readonly liquidityGross: JSBI
-  private readonly liquidityNet: JSBI
+  /**
+   * The fee growth per unit of liquidity in token0 on the other side of this tick, relative to the current tick
+   */
+  public readonly feeGrowthOutside0X128: JSBI
+  /**
+   * The fee growth per unit of liquidity in token1 on the other side of this tick, relative to the current tick
+   */
+  public readonly feeGrowthOutside1X128: JSBI
+  /**
+   * The total liquidity of all positions that use this tick as a lower or upper boundary
+   */
+  public readonly liquidityGross: JSBI
+  /**
+   * The amount of liquidity added when the tick is crossed from left to right, i.e. subtracted when crossing from
+   * right to left
+   */
+  public readonly liquidityNet: JSBI
+
+  /**
+   * Constructs a tick from its JSON representation, validating it like the constructor
+   * @param json the JSON representation of the tick
+   */
+  public static fromJSON({ version, ...tick }: TickJSON): Tick {
+    invariant(version === TICK_JSON_VERSION, 'VERSION')
+    return new Tick(tick)
+  }
+
   constructor({
     feeGrowthOutside0X128,
     feeGrowthOutside1X128,
@@ -22,25 +63,48 @@ export class Tick {
     liquidityGross,
     liquidityNet
   }: TickConstructorArgs) {
+    invariant(Number.isInteger(index) && index >= TickMath.MIN_TICK && index <= TickMath.MAX_TICK, 'TICK')
     this.feeGrowthOutside0X128 = JSBI.BigInt(feeGrowthOutside0X128)
     this.feeGrowthOutside1X128 = JSBI.BigInt(feeGrowthOutside1X128)
     this.i = index
     this.liquidityGross = JSBI.BigInt(liquidityGross)
     this.liquidityNet = JSBI.BigInt(liquidityNet)
-  }
 
-  public get todo(): void {
-    console.log(
-      this.feeGrowthOutside0X128,
-      this.feeGrowthOutside1X128,
-      this.index,
-      this.liquidityGross,
-      this.liquidityNet
-    )
-    return
+    const absLiquidityNet = JSBI.lessThan(this.liquidityNet, ZERO)
+      ? JSBI.multiply(this.liquidityNet, NEGATIVE_ONE)
+      : this.liquidityNet
+    invariant(JSBI.greaterThanOrEqual(this.liquidityGross, absLiquidityNet), 'LIQUIDITY_NET')
   }
 
   public get index(): number {
     return this.i
   }
+
+  /**
+   * Returns true if the two ticks are equivalent, i.e. have the same index, liquidity and fee growth
+   * @param other the other tick
+   */
+  public equals(other: Tick): boolean {
+    return (
+      this.index === other.index &&
+      JSBI.equal(this.liquidityGross, other.liquidityGross) &&
+      JSBI.equal(this.liquidityNet, other.liquidityNet) &&
+      JSBI.equal(this.feeGrowthOutside0X128, other.feeGrowthOutside0X128) &&
+      JSBI.equal(this.feeGrowthOutside1X128, other.feeGrowthOutside1X128)
+    )
+  }
+
+  /**
+   * Returns a JSON serializable representation of the tick, which can be passed back into #fromJSON
+   */
+  public toJSON(): TickJSON {
+    return {
+      version: TICK_JSON_VERSION,
+      feeGrowthOutside0X128: this.feeGrowthOutside0X128.toString(),
+      feeGrowthOutside1X128: this.feeGrowthOutside1X128.toString(),
+      index: this.index,
+      liquidityGross: this.liquidityGross.toString(),
+      liquidityNet: this.liquidityNet.toString()
+    }
+  }
 }
@@ -0,0 +1,23 @@
+import { BigintIsh } from '@uniswap/sdk-core'
+
+/**
+ * Provides the initialized ticks of a pool to swap simulations on demand, e.g. from a cache or a node, so that pools
+ * with many initialized ticks do not have to be loaded in full before quoting against them
+ */
+export interface TickDataProvider {
+  /**
+   * Returns the data of the initialized tick at the given index
+   * @param tick the index of the tick, which must be initialized
+   */
+  getTick(tick: number): Promise<{ liquidityNet: BigintIsh }>
+
+  /**
+   * Returns the next initialized tick, or the boundary of the tick bitmap word containing the given tick, whichever
+   * is closer, along with whether the returned tick is initialized, matching
+   * TickBitmap#nextInitializedTickWithinOneWord
+   * @param tick the starting tick
+   * @param lte whether to search to the left of the starting tick, inclusive
+   * @param tickSpacing the spacing between usable ticks
+   */
+  nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number): Promise<[number, boolean]>
+}
@@ -1,8 +1,8 @@
 import { Tick } from './tick'
-import { TickList } from './tickList'
+import { TickList, TickListJSON } from './tickList'
 import { MAX_TICK, MIN_TICK } from '../constants'
 
-describe('TickMap', () => {
+describe('TickList', () => {
   let highTick: Tick
   let lowTick: Tick
   let midTick: Tick
@@ -12,127 +12,225 @@ describe('TickMap', () => {
       feeGrowthOutside0X128: 2,
       feeGrowthOutside1X128: 3,
       index: MIN_TICK + 1,
-      liquidityNet: 0,
-      liquidityGross: 0
+      liquidityNet: 10,
+      liquidityGross: 10
     })
     midTick = new Tick({
       feeGrowthOutside0X128: 2,
       feeGrowthOutside1X128: 3,
       index: 0,
-      liquidityNet: 0,
-      liquidityGross: 0
+      liquidityNet: -5,
+      liquidityGross: 5
     })
     highTick = new Tick({
       feeGrowthOutside0X128: 4,
       feeGrowthOutside1X128: 1,
       index: MAX_TICK - 1,
-      liquidityNet: 0,
-      liquidityGross: 0
+      liquidityNet: -5,
+      liquidityGross: 5
     })
 
     listDefault = new TickList({ ticks: [lowTick, midTick, highTick] })
   })
+
   describe('constructor', () => {
     it('should sort the initial ticks', () => {
       const result = new TickList({ ticks: [highTick, lowTick, midTick] })
-      expect(result.head?.value.index).toEqual(MAX_TICK - 1)
-      expect(result.tail?.value.index).toEqual(MIN_TICK + 1)
+      expect(result.values.map(tick => tick.index)).toEqual([MIN_TICK + 1, 0, MAX_TICK - 1])
+    })
+
+    it('should not modify the ticks passed in', () => {
+      const ticks = [highTick, lowTick, midTick]
+      new TickList({ ticks })
+      expect(ticks).toEqual([highTick, lowTick, midTick])
+    })
+
+    it('should throw on duplicate ticks', () => {
+      expect(() => new TickList({ ticks: [lowTick, midTick, lowTick] })).toThrow('DUPLICATE_TICK')
+    })
+
+    it('can be empty', () => {
+      expect(new TickList({}).length).toEqual(0)
     })
   })
-  describe('insert', () => {
-    it('should sort new lower ticks to tail', () => {
-      const t = {
-        feeGrowthOutside0X128: 0,
-        feeGrowthOutside1X128: 0,
-        index: MIN_TICK,
-        liquidityNet: 0,
-        liquidityGross: 0
-      }
-      expect(listDefault.tail?.value.index).toEqual(MIN_TICK + 1)
-      listDefault.insert(new Tick(t))
-      expect(listDefault.tail?.value.index).toEqual(MIN_TICK)
+
+  describe('#isBelowSmallest', () => {
+    it('is correct', () => {
+      expect(listDefault.isBelowSmallest(MIN_TICK)).toBe(true)
+      expect(listDefault.isBelowSmallest(MIN_TICK + 1)).toBe(false)
+    })
+  })
+
+  describe('#isAtOrAboveLargest', () => {
+    it('is correct', () => {
+      expect(listDefault.isAtOrAboveLargest(MAX_TICK - 2)).toBe(false)
+      expect(listDefault.isAtOrAboveLargest(MAX_TICK - 1)).toBe(true)
+    })
+  })
+
+  describe('#getTick', () => {
+    it('returns the tick at the index', () => {
+      expect(listDefault.getTick(MIN_TICK + 1)).toEqual(lowTick)
+      expect(listDefault.getTick(0)).toEqual(midTick)
+      expect(listDefault.getTick(MAX_TICK - 1)).toEqual(highTick)
+    })
+
+    it('throws if the tick is not initialized', () => {
+      expect(() => listDefault.getTick(1)).toThrow('NOT_CONTAINED')
+      expect(() => listDefault.getTick(MIN_TICK)).toThrow('BELOW_SMALLEST')
+    })
+  })
+
+  describe('#nextInitializedTick', () => {
+    it('low - lte = true', () => {
+      expect(() => listDefault.nextInitializedTick(MIN_TICK, true)).toThrow('BELOW_SMALLEST')
+
+      expect(listDefault.nextInitializedTick(MIN_TICK + 1, true)).toEqual(lowTick)
+      expect(listDefault.nextInitializedTick(MIN_TICK + 2, true)).toEqual(lowTick)
+    })
+
+    it('low - lte = false', () => {
+      expect(listDefault.nextInitializedTick(MIN_TICK, false)).toEqual(lowTick)
+      expect(listDefault.nextInitializedTick(MIN_TICK + 1, false)).toEqual(midTick)
+    })
+
+    it('mid - lte = true', () => {
+      expect(listDefault.nextInitializedTick(0, true)).toEqual(midTick)
+      expect(listDefault.nextInitializedTick(1, true)).toEqual(midTick)
+    })
+
+    it('mid - lte = false', () => {
+      expect(listDefault.nextInitializedTick(-1, false)).toEqual(midTick)
+      expect(listDefault.nextInitializedTick(0 + 1, false)).toEqual(highTick)
+    })
+
+    it('high - lte = true', () => {
+      expect(listDefault.nextInitializedTick(MAX_TICK - 1, true)).toEqual(highTick)
+      expect(listDefault.nextInitializedTick(MAX_TICK, true)).toEqual(highTick)
     })
-    it('should sort new higher ticks to head', () => {
-      const t = {
+
+    it('high - lte = false', () => {
+      expect(() => listDefault.nextInitializedTick(MAX_TICK - 1, false)).toThrow('AT_OR_ABOVE_LARGEST')
+
+      expect(listDefault.nextInitializedTick(MAX_TICK - 2, false)).toEqual(highTick)
+      expect(listDefault.nextInitializedTick(MAX_TICK - 3, false)).toEqual(highTick)
+    })
+  })
+
+  describe('#nextInitializedTickWithinOneWord', () => {
+    it('words around 0, lte = true', () => {
+      expect(listDefault.nextInitializedTickWithinOneWord(-257, true, 1)).toEqual([-512, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(-256, true, 1)).toEqual([-256, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(-1, true, 1)).toEqual([-256, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(0, true, 1)).toEqual([0, true])
+      expect(listDefault.nextInitializedTickWithinOneWord(1, true, 1)).toEqual([0, true])
+      expect(listDefault.nextInitializedTickWithinOneWord(255, true, 1)).toEqual([0, true])
+      expect(listDefault.nextInitializedTickWithinOneWord(256, true, 1)).toEqual([256, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(257, true, 1)).toEqual([256, false])
+    })
+
+    it('words around 0, lte = false', () => {
+      expect(listDefault.nextInitializedTickWithinOneWord(-258, false, 1)).toEqual([-257, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(-257, false, 1)).toEqual([-1, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(-256, false, 1)).toEqual([-1, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(-2, false, 1)).toEqual([-1, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(-1, false, 1)).toEqual([0, true])
+      expect(listDefault.nextInitializedTickWithinOneWord(0, false, 1)).toEqual([255, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(1, false, 1)).toEqual([255, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(254, false, 1)).toEqual([255, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(255, false, 1)).toEqual([511, false])
+      expect(listDefault.nextInitializedTickWithinOneWord(256, false, 1)).toEqual([511, false])
+    })
+
+    it('performs correctly with tick spacing > 1', () => {
+      const list = new TickList({ ticks: [midTick] })
+      expect(list.nextInitializedTickWithinOneWord(0, false, 10)).toEqual([2550, false])
+      expect(list.nextInitializedTickWithinOneWord(-1, false, 10)).toEqual([0, true])
+      expect(list.nextInitializedTickWithinOneWord(-1, true, 10)).toEqual([-2560, false])
+      expect(list.nextInitializedTickWithinOneWord(2560, true, 10)).toEqual([2560, false])
+      expect(list.nextInitializedTickWithinOneWord(2559, true, 10)).toEqual([0, true])
+    })
+
+    it('returns the word boundaries for an empty list', () => {
+      const list = new TickList({})
+      expect(list.nextInitializedTickWithinOneWord(0, true, 1)).toEqual([0, false])
+      expect(list.nextInitializedTickWithinOneWord(0, false, 1)).toEqual([255, false])
+    })
+  })
+
+  describe('#insert', () => {
+    it('returns a new list with the tick in sorted position', () => {
+      const t = new Tick({
         feeGrowthOutside0X128: 0,
         feeGrowthOutside1X128: 0,
         index: MAX_TICK,
         liquidityNet: 0,
         liquidityGross: 0
-      }
-      expect(listDefault.head?.value.index).toEqual(MAX_TICK - 1)
-      listDefault.insert(new Tick(t))
-      expect(listDefault.head?.value.index).toEqual(MAX_TICK)
-    })
-    it('should set a new tick to both head and tail if there are no other ticks', () => {
-      const result = new TickList({ ticks: [] })
-      const t = {
+      })
+      const result = listDefault.insert(t)
+      expect(result.values.map(tick => tick.index)).toEqual([lowTick.index, midTick.index, highTick.index, MAX_TICK])
+      expect(listDefault.length).toEqual(3)
+    })
+
+    it('replaces a tick with the same index', () => {
+      const t = new Tick({
         feeGrowthOutside0X128: 0,
         feeGrowthOutside1X128: 0,
-        index: MAX_TICK,
+        index: 0,
         liquidityNet: 0,
         liquidityGross: 0
-      }
-      result.insert(new Tick(t))
-      expect(result.head?.value.index).toEqual(MAX_TICK)
-    })
-    it('should be able to insert a tick in the middle', () => {
-      const result = new TickList({ ticks: [lowTick, highTick] })
-      expect(result.head?.left?.value.index).toEqual(lowTick.index)
-      expect(result.tail?.right?.value.index).toEqual(highTick.index)
-      expect(result.values.length).toBe(2)
+      })
+      const result = listDefault.insert(t)
+      expect(result.length).toEqual(3)
+      expect(result.getTick(0)).toEqual(t)
+      expect(listDefault.getTick(0)).toEqual(midTick)
     })
   })
-  describe('dequeue', () => {
-    it('should remove the last item and leave an empty set', () => {
-      listDefault.dequeue()
-      listDefault.dequeue()
-      listDefault.dequeue()
-      expect(listDefault.tail).toBeUndefined()
-      expect(listDefault.head).toBeUndefined()
-      expect(listDefault.values.length).toBe(0)
-    })
-    it('should remove the first item and return it', () => {
-      expect(listDefault.head?.value.index).toBe(MAX_TICK - 1)
-      const result = listDefault.dequeue()
-      expect(result).toBeDefined()
-      expect((result as Tick).index).toEqual(MAX_TICK - 1)
-      expect(listDefault.head?.value.index).toBe(0)
+
+  describe('#remove', () => {
+    it('returns a new list without the tick', () => {
+      const result = listDefault.remove(0)
+      expect(result.values).toEqual([lowTick, highTick])
+      expect(listDefault.values).toEqual([lowTick, midTick, highTick])
+    })
+
+    it('throws if the tick is not initialized', () => {
+      expect(() => listDefault.remove(1)).toThrow('NOT_CONTAINED')
     })
   })
-  describe('pop', () => {
-    it('should remove the last item and return it', () => {
-      expect(listDefault.tail?.value.index).toBe(MIN_TICK + 1)
-      const result = listDefault.pop()
-      expect(result).toBeDefined()
-      expect((result as Tick).index).toEqual(MIN_TICK + 1)
-      expect(listDefault.tail?.value.index).toBe(0)
-    })
-    it('should remove all items and leave an empty set', () => {
-      listDefault.pop()
-      listDefault.pop()
-      listDefault.pop()
-      expect(listDefault.tail).toBeUndefined()
-      expect(listDefault.head).toBeUndefined()
-      expect(listDefault.values.length).toBe(0)
+
+  describe('#toJSON', () => {
+    it('encodes the ticks in order', () => {
+      expect(new TickList({ ticks: [highTick, lowTick] }).toJSON()).toEqual({
+        version: 1,
+        ticks: [lowTick.toJSON(), highTick.toJSON()]
+      })
+    })
+
+    it('round trips through fromJSON', () => {
+      const result = TickList.fromJSON(JSON.parse(JSON.stringify(listDefault)))
+      expect(result.values.every((tick, i) => tick.equals(listDefault.values[i]))).toBe(true)
     })
   })
-  describe('values', () => {
-    it('should list ticks from least to greatest', () => {
-      const initialTicks = listDefault.values.map(tick => tick.index)
-      expect(listDefault.values.map(tick => tick.index)).toEqual(initialTicks)
-
-      listDefault.insert(
-        new Tick({
-          feeGrowthOutside0X128: 0,
-          feeGrowthOutside1X128: 0,
-          index: MAX_TICK,
-          liquidityNet: 0,
-          liquidityGross: 0
-        })
+
+  describe('#fromJSON', () => {
+    it('validates the ticks', () => {
+      expect(() => TickList.fromJSON({ version: 1, ticks: [{ ...midTick.toJSON(), liquidityGross: '1' }] })).toThrow(
+        'LIQUIDITY_NET'
+      )
+      expect(() => TickList.fromJSON({ version: 1, ticks: [midTick.toJSON(), midTick.toJSON()] })).toThrow(
+        'DUPLICATE_TICK'
       )
-      const result = listDefault.values.map(tick => tick.index)
-      expect(result).toEqual([lowTick.index, midTick.index, highTick.index, MAX_TICK])
+    })
+
+    it('throws for an unknown version', () => {
+      expect(() => TickList.fromJSON(({ ...listDefault.toJSON(), version: 2 } as unknown) as TickListJSON)).toThrow(
+        'VERSION'
+      )
+    })
+
+    it('throws without ticks', () => {
+      expect(() => TickList.fromJSON(({ version: 1 } as unknown) as TickListJSON)).toThrow('TICKS')
     })
   })
 })
@@ -1,98 +1,188 @@
-import { Tick } from './tick'
-
-export interface ListNode<T> {
-  value: T
-  right?: ListNode<T>
-  left?: ListNode<T>
-}
+import invariant from 'tiny-invariant'
+import { Tick, TickJSON } from './tick'
 
 interface TickListConstructorArgs {
   ticks?: Tick[]
-  current?: Tick
 }
 
+/**
+ * The JSON representation of a tick list. The version is incremented whenever the format changes in a way that older
+ * readers cannot load.
+ */
+export interface TickListJSON {
+  version: 1
+  ticks: TickJSON[]
+}
+
+const TICK_LIST_JSON_VERSION = 1
+
+/**
+ * An immutable list of initialized ticks, sorted by index, that supports the lookups needed to simulate swaps
+ */
 export class TickList {
-  head?: ListNode<Tick> // right
-  tail?: ListNode<Tick> // left
-  constructor({ ticks }: TickListConstructorArgs) {
-    if (ticks && ticks.length > 0) {
-      ticks.sort(({ index: a }, { index: b }) => (a > b ? -1 : 1)).forEach(tick => this.insertUnsorted(tick))
-    }
+  /**
+   * The initialized ticks, sorted ascending by index
+   */
+  public readonly ticks: readonly Tick[]
+
+  /**
+   * Constructs a tick list from its JSON representation, validating each tick
+   * @param json the JSON representation of the tick list
+   */
+  public static fromJSON(json: TickListJSON): TickList {
+    invariant(json.version === TICK_LIST_JSON_VERSION, 'VERSION')
+    invariant(Array.isArray(json.ticks), 'TICKS')
+    return new TickList({ ticks: json.ticks.map(tick => Tick.fromJSON(tick)) })
   }
-  private insertUnsorted(tick: Tick): void {
-    const node: ListNode<Tick> = { value: tick }
-    if (this.head === undefined) {
-      this.head = node
-    } else if (this.tail === undefined) {
-      this.tail = node
-      this.tail.right = this.head
-      this.head.left = this.tail
-    } else {
-      const priorTail = this.tail
-      node.right = priorTail
-      priorTail.left = node
-      this.tail = node
+
+  public constructor({ ticks = [] }: TickListConstructorArgs) {
+    const sorted = [...ticks].sort(({ index: a }, { index: b }) => a - b)
+    for (let i = 1; i < sorted.length; i++) {
+      invariant(sorted[i - 1].index !== sorted[i].index, 'DUPLICATE_TICK')
     }
+    this.ticks = sorted
   }
-  insert(tick: Tick): void {
-    const node: ListNode<Tick> = { value: tick }
-    if (this.head === undefined) {
-      this.head = node
-    } else if (this.head.value.index < node.value.index) {
-      // insert at the beginning
-      node.left = this.head
-      this.head.right = node
-      this.head = node
-    } else {
-      // find insertion point
-      let current: ListNode<Tick> | undefined = { ...this.head }
-      while (current.left && current.left.value.index >= node.value.index) {
-        current = current.left
-      }
-      current.right = node
-      node.left = current
-      if (current.right === undefined) {
-        this.head = node
-      } else {
-        node.right = current.right
+
+  /**
+   * Returns the ticks from least to greatest
+   */
+  public get values(): Tick[] {
+    return [...this.ticks]
+  }
+
+  public get length(): number {
+    return this.ticks.length
+  }
+
+  /**
+   * Returns true if the given tick is strictly less than every initialized tick, or if the list is empty
+   * @param tick the tick to compare
+   */
+  public isBelowSmallest(tick: number): boolean {
+    return this.ticks.length === 0 || tick < this.ticks[0].index
+  }
+
+  /**
+   * Returns true if the given tick is greater than or equal to every initialized tick, or if the list is empty
+   * @param tick the tick to compare
+   */
+  public isAtOrAboveLargest(tick: number): boolean {
+    return this.ticks.length === 0 || tick >= this.ticks[this.ticks.length - 1].index
+  }
+
+  /**
+   * Returns the initialized tick at the given index, throwing if it is not in the list
+   * @param index the index of the tick
+   */
+  public getTick(index: number): Tick {
+    const tick = this.ticks[this.binarySearch(index)]
+    invariant(tick.index === index, 'NOT_CONTAINED')
+    return tick
+  }
+
+  /**
+   * Returns the closest initialized tick to the left (less than or equal to) or to the right (strictly greater than)
+   * of the given tick
+   * @param tick the starting tick
+   * @param lte whether to search to the left of the starting tick, inclusive
+   */
+  public nextInitializedTick(tick: number, lte: boolean): Tick {
+    if (lte) {
+      invariant(!this.isBelowSmallest(tick), 'BELOW_SMALLEST')
+      if (this.isAtOrAboveLargest(tick)) {
+        return this.ticks[this.ticks.length - 1]
       }
-      if (current.left === undefined) {
-        this.tail = node
+      return this.ticks[this.binarySearch(tick)]
+    } else {
+      invariant(!this.isAtOrAboveLargest(tick), 'AT_OR_ABOVE_LARGEST')
+      if (this.isBelowSmallest(tick)) {
+        return this.ticks[0]
       }
+      return this.ticks[this.binarySearch(tick) + 1]
     }
   }
-  dequeue(): Tick | void {
-    if (this.head) {
-      const value = this.head.value
-      this.head = this.head.left
-      if (this.head === undefined) {
-        this.tail = undefined
-      } else {
-        this.head.left = undefined
+
+  /**
+   * Returns the next initialized tick, or the boundary of the tick bitmap word containing the given tick, whichever
+   * is closer. Matches TickBitmap#nextInitializedTickWithinOneWord, so that swaps are split into the same steps as
+   * they are on-chain.
+   * @param tick the starting tick
+   * @param lte whether to search to the left of the starting tick, inclusive
+   * @param tickSpacing the spacing between usable ticks
+   */
+  public nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number): [number, boolean] {
+    const compressed = Math.floor(tick / tickSpacing)
+
+    if (lte) {
+      const wordPos = compressed >> 8
+      const minimum = (wordPos << 8) * tickSpacing
+
+      if (this.isBelowSmallest(tick)) {
+        return [minimum, false]
+      }
+
+      const index = this.nextInitializedTick(tick, lte).index
+      const nextInitializedTick = Math.max(minimum, index)
+      return [nextInitializedTick, nextInitializedTick === index]
+    } else {
+      const wordPos = (compressed + 1) >> 8
+      const maximum = (((wordPos + 1) << 8) - 1) * tickSpacing
+
+      if (this.isAtOrAboveLargest(tick)) {
+        return [maximum, false]
       }
-      return value
+
+      const index = this.nextInitializedTick(tick, lte).index
+      const nextInitializedTick = Math.min(maximum, index)
+      return [nextInitializedTick, nextInitializedTick === index]
     }
   }
-  pop(): Tick | void {
-    if (this.tail) {
-      const value = this.tail.value
-      this.tail = this.tail.right
-      if (this.tail === undefined) {
-        this.head = undefined
+
+  /**
+   * Returns a new list with the given tick added, replacing any tick with the same index
+   * @param tick the tick to add
+   */
+  public insert(tick: Tick): TickList {
+    return new TickList({ ticks: [...this.ticks.filter(({ index }) => index !== tick.index), tick] })
+  }
+
+  /**
+   * Returns a new list without the tick at the given index, throwing if it is not in the list
+   * @param index the index of the tick to remove
+   */
+  public remove(index: number): TickList {
+    this.getTick(index)
+    return new TickList({ ticks: this.ticks.filter(tick => tick.index !== index) })
+  }
+
+  /**
+   * Returns a JSON serializable representation of the tick list, sorted by index
+   */
+  public toJSON(): TickListJSON {
+    return { version: TICK_LIST_JSON_VERSION, ticks: this.ticks.map(tick => tick.toJSON()) }
+  }
+
+  /**
+   * Returns the position in the list of the largest initialized tick that is less than or equal to the given tick
+   * @param tick the tick to search for
+   */
+  private binarySearch(tick: number): number {
+    invariant(!this.isBelowSmallest(tick), 'BELOW_SMALLEST')
+
+    let l = 0
+    let r = this.ticks.length - 1
+    while (true) {
+      const i = Math.floor((l + r) / 2)
+
+      if (this.ticks[i].index <= tick && (i === this.ticks.length - 1 || this.ticks[i + 1].index > tick)) {
+        return i
+      }
+
+      if (this.ticks[i].index < tick) {
+        l = i + 1
       } else {
-        this.tail.left = undefined
+        r = i - 1
       }
-      return value
-    }
-  }
-  public get values(): Tick[] {
-    // returns values starting from tail (lowest tick)
-    let current = this.tail
-    const result = []
-    while (current) {
-      result.push(current.value)
-      current = current.right
     }
-    return result
   }
 }
@@ -0,0 +1,39 @@
+import { Tick } from './tick'
+import { TickList } from './tickList'
+import { TickListDataProvider } from './tickListDataProvider'
+
+describe('TickListDataProvider', () => {
+  const tickList = new TickList({
+    ticks: [
+      new Tick({
+        feeGrowthOutside0X128: 0,
+        feeGrowthOutside1X128: 0,
+        index: -60,
+        liquidityNet: 10,
+        liquidityGross: 10
+      }),
+      new Tick({ feeGrowthOutside0X128: 0, feeGrowthOutside1X128: 0, index: 60, liquidityNet: -10, liquidityGross: 10 })
+    ]
+  })
+  const provider = new TickListDataProvider(tickList)
+
+  describe('#getTick', () => {
+    it('returns the tick from the list', async () => {
+      expect(await provider.getTick(-60)).toBe(tickList.getTick(-60))
+    })
+
+    it('rejects for a tick that is not initialized', async () => {
+      await expect(provider.getTick(0)).rejects.toThrow('NOT_CONTAINED')
+    })
+  })
+
+  describe('#nextInitializedTickWithinOneWord', () => {
+    it('matches the tick list', async () => {
+      expect(await provider.nextInitializedTickWithinOneWord(-1, true, 60)).toEqual([-60, true])
+      expect(await provider.nextInitializedTickWithinOneWord(0, false, 60)).toEqual([60, true])
+      expect(await provider.nextInitializedTickWithinOneWord(120, false, 60)).toEqual(
+        tickList.nextInitializedTickWithinOneWord(120, false, 60)
+      )
+    })
+  })
+})
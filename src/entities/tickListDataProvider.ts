@@ -0,0 +1,26 @@
+import { Tick } from './tick'
+import { TickDataProvider } from './tickDataProvider'
+import { TickList } from './tickList'
+
+/**
+ * A tick data provider that serves the ticks from a tick list held in memory
+ */
+export class TickListDataProvider implements TickDataProvider {
+  public readonly tickList: TickList
+
+  public constructor(tickList: TickList) {
+    this.tickList = tickList
+  }
+
+  public async getTick(tick: number): Promise<Tick> {
+    return this.tickList.getTick(tick)
+  }
+
+  public async nextInitializedTickWithinOneWord(
+    tick: number,
+    lte: boolean,
+    tickSpacing: number
+  ): Promise<[number, boolean]> {
+    return this.tickList.nextInitializedTickWithinOneWord(tick, lte, tickSpacing)
+  }
+}
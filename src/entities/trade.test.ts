@@ -1,83 +1,33 @@
 import { ChainId, CurrencyAmount, ETHER, Percent, Token, TokenAmount, TradeType, WETH9 } from '@uniswap/sdk-core'
 import JSBI from 'jsbi'
 import { FeeAmount } from '../constants'
+import { InsufficientInputAmountError, InsufficientReservesError } from '../errors'
+import { makeFullRangePool } from '../testUtils'
+import { TickMath } from '../utils'
+import { ExecutionContext } from './executionContext'
 import { Pool } from './pool'
 import { Route } from './route'
-import { Tick } from './tick'
-import { TickList } from './tickList'
+import { TickListDataProvider } from './tickListDataProvider'
 import { Trade } from './trade'
 
-describe.skip('Trade', () => {
+describe('Trade', () => {
   const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
   const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
   const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
   const token3 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000004', 18, 't3')
-  const sqrtPriceX96Default = 20
-  const inRangeLiquidityDefault = 0
-  const tickMapDefault = new TickList({
-    ticks: [
-      new Tick({ feeGrowthOutside0X128: 2, feeGrowthOutside1X128: 3, index: -2, liquidityNet: 0, liquidityGross: 0 }),
-      new Tick({ feeGrowthOutside0X128: 4, feeGrowthOutside1X128: 1, index: 2, liquidityNet: 0, liquidityGross: 0 })
-    ]
-  })
-  const pool_0_1 = new Pool(
-    new TokenAmount(token0, JSBI.BigInt(1000)),
-    new TokenAmount(token1, JSBI.BigInt(1000)),
-    FeeAmount.MEDIUM,
-    sqrtPriceX96Default,
-    inRangeLiquidityDefault,
-    tickMapDefault
-  )
-  const pool_0_2 = new Pool(
-    new TokenAmount(token0, JSBI.BigInt(1000)),
-    new TokenAmount(token2, JSBI.BigInt(1100)),
-    FeeAmount.MEDIUM,
-    sqrtPriceX96Default,
-    inRangeLiquidityDefault,
-    tickMapDefault
-  )
-  const pool_0_3 = new Pool(
-    new TokenAmount(token0, JSBI.BigInt(1000)),
-    new TokenAmount(token3, JSBI.BigInt(900)),
-    FeeAmount.MEDIUM,
-    sqrtPriceX96Default,
-    inRangeLiquidityDefault,
-    tickMapDefault
-  )
-  const pool_1_2 = new Pool(
-    new TokenAmount(token1, JSBI.BigInt(1200)),
-    new TokenAmount(token2, JSBI.BigInt(1000)),
-    FeeAmount.MEDIUM,
-    sqrtPriceX96Default,
-    inRangeLiquidityDefault,
-    tickMapDefault
-  )
-  const pool_1_3 = new Pool(
-    new TokenAmount(token1, JSBI.BigInt(1200)),
-    new TokenAmount(token3, JSBI.BigInt(1300)),
-    FeeAmount.MEDIUM,
-    sqrtPriceX96Default,
-    inRangeLiquidityDefault,
-    tickMapDefault
-  )
-
-  const pool_weth_0 = new Pool(
-    new TokenAmount(WETH9[ChainId.MAINNET], JSBI.BigInt(1000)),
-    new TokenAmount(token0, JSBI.BigInt(1000)),
-    FeeAmount.MEDIUM,
-    sqrtPriceX96Default,
-    inRangeLiquidityDefault,
-    tickMapDefault
-  )
-
-  const empty_pool_0_1 = new Pool(
-    new TokenAmount(token0, JSBI.BigInt(0)),
-    new TokenAmount(token1, JSBI.BigInt(0)),
-    FeeAmount.MEDIUM,
-    sqrtPriceX96Default,
-    inRangeLiquidityDefault,
-    tickMapDefault
-  )
+  // full range pools holding roughly the given reserves, e.g. 1000 token0 and 1100 token2 at a price of 1.1
+  function makePool(tokenA: Token, tokenB: Token, liquidity: number, tick: number) {
+    return makeFullRangePool(tokenA, tokenB, FeeAmount.MEDIUM, liquidity, TickMath.getSqrtRatioAtTick(tick))
+  }
+  const pool_0_1 = makePool(token0, token1, 1000, 0) // 1000:1000
+  const pool_0_2 = makePool(token0, token2, 1049, 953) // 1000:1100
+  const pool_0_3 = makePool(token0, token3, 949, -1054) // 1000:900
+  const pool_1_2 = makePool(token1, token2, 1095, -1824) // 1200:1000
+  const pool_1_3 = makePool(token1, token3, 1249, 800) // 1200:1300
+
+  const pool_weth_0 = makePool(WETH9[ChainId.MAINNET], token0, 1000, 0) // 1000:1000
+
+  const empty_pool_0_1 = makePool(token0, token1, 0, 0)
 
   it('can be constructed with ETHER as input', () => {
     const trade = new Trade(
@@ -117,6 +67,34 @@ describe.skip('Trade', () => {
     expect(trade.outputAmount.currency).toEqual(ETHER)
   })
 
+  describe('#exactIn', () => {
+    it('computes the output amount through every pool', () => {
+      const trade = Trade.exactIn(new Route([pool_0_1, pool_1_2], token0), new TokenAmount(token0, JSBI.BigInt(100)))
+      expect(trade.tradeType).toEqual(TradeType.EXACT_INPUT)
+      expect(trade.inputAmount).toEqual(new TokenAmount(token0, JSBI.BigInt(100)))
+      expect(trade.outputAmount).toEqual(new TokenAmount(token2, JSBI.BigInt(69)))
+    })
+    it('throws if the input amount is too low', () => {
+      expect(() =>
+        Trade.exactIn(new Route([pool_0_1, pool_1_2], token0), new TokenAmount(token0, JSBI.BigInt(2)))
+      ).toThrow(InsufficientInputAmountError)
+    })
+  })
+
+  describe('#exactOut', () => {
+    it('computes the input amount through every pool', () => {
+      const trade = Trade.exactOut(new Route([pool_0_1, pool_1_2], token0), new TokenAmount(token2, JSBI.BigInt(100)))
+      expect(trade.tradeType).toEqual(TradeType.EXACT_OUTPUT)
+      expect(trade.inputAmount).toEqual(new TokenAmount(token0, JSBI.BigInt(158)))
+      expect(trade.outputAmount).toEqual(new TokenAmount(token2, JSBI.BigInt(100)))
+    })
+    it('throws if the output amount exceeds the reserves', () => {
+      expect(() =>
+        Trade.exactOut(new Route([pool_0_1, pool_1_2], token0), new TokenAmount(token2, JSBI.BigInt(1050)))
+      ).toThrow(InsufficientReservesError)
+    })
+  })
+
   describe('#bestTradeExactIn', () => {
     it('throws with empty pools', () => {
       expect(() => Trade.bestTradeExactIn([], new TokenAmount(token0, JSBI.BigInt(100)), token2)).toThrow('POOLS')
@@ -137,7 +115,7 @@ describe.skip('Trade', () => {
       expect(result[0].route.pools).toHaveLength(1) // 0 -> 2 at 10:11
       expect(result[0].route.tokenPath).toEqual([token0, token2])
       expect(result[0].inputAmount).toEqual(new TokenAmount(token0, JSBI.BigInt(100)))
-      expect(result[0].outputAmount).toEqual(new TokenAmount(token2, JSBI.BigInt(99)))
+      expect(result[0].outputAmount).toEqual(new TokenAmount(token2, JSBI.BigInt(97)))
       expect(result[1].route.pools).toHaveLength(2) // 0 -> 1 -> 2 at 12:12:10
       expect(result[1].route.tokenPath).toEqual([token0, token1, token2])
       expect(result[1].inputAmount).toEqual(new TokenAmount(token0, JSBI.BigInt(100)))
@@ -165,7 +143,7 @@ describe.skip('Trade', () => {
     it('insufficient input for one pool', () => {
       const result = Trade.bestTradeExactIn(
         [pool_0_1, pool_0_2, pool_1_2],
-        new TokenAmount(token0, JSBI.BigInt(1)),
+        new TokenAmount(token0, JSBI.BigInt(2)),
         token2
       )
       expect(result).toHaveLength(1)
@@ -268,13 +246,13 @@ describe.skip('Trade', () => {
       })
       it('returns slippage amount if nonzero', () => {
         expect(exactOut.maximumAmountIn(new Percent(JSBI.BigInt(0), JSBI.BigInt(100)))).toEqual(
-          new TokenAmount(token0, JSBI.BigInt(156))
+          new TokenAmount(token0, JSBI.BigInt(158))
         )
         expect(exactOut.maximumAmountIn(new Percent(JSBI.BigInt(5), JSBI.BigInt(100)))).toEqual(
-          new TokenAmount(token0, JSBI.BigInt(163))
+          new TokenAmount(token0, JSBI.BigInt(165))
         )
         expect(exactOut.maximumAmountIn(new Percent(JSBI.BigInt(200), JSBI.BigInt(100)))).toEqual(
-          new TokenAmount(token0, JSBI.BigInt(468))
+          new TokenAmount(token0, JSBI.BigInt(474))
         )
       })
     })
@@ -355,11 +333,11 @@ describe.skip('Trade', () => {
       expect(result).toHaveLength(2)
       expect(result[0].route.pools).toHaveLength(1) // 0 -> 2 at 10:11
       expect(result[0].route.tokenPath).toEqual([token0, token2])
-      expect(result[0].inputAmount).toEqual(new TokenAmount(token0, JSBI.BigInt(101)))
+      expect(result[0].inputAmount).toEqual(new TokenAmount(token0, JSBI.BigInt(103)))
       expect(result[0].outputAmount).toEqual(new TokenAmount(token2, JSBI.BigInt(100)))
       expect(result[1].route.pools).toHaveLength(2) // 0 -> 1 -> 2 at 12:12:10
       expect(result[1].route.tokenPath).toEqual([token0, token1, token2])
-      expect(result[1].inputAmount).toEqual(new TokenAmount(token0, JSBI.BigInt(156)))
+      expect(result[1].inputAmount).toEqual(new TokenAmount(token0, JSBI.BigInt(158)))
       expect(result[1].outputAmount).toEqual(new TokenAmount(token2, JSBI.BigInt(100)))
     })
 
@@ -449,3 +427,143 @@ describe.skip('Trade', () => {
     })
   })
 })
+
+describe('Trade prices', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+  const liquidity = JSBI.BigInt('1000000000000000000')
+
+  const pool_0_1 = makeFullRangePool(token0, token1, FeeAmount.MEDIUM, liquidity)
+  const pool_1_2 = makeFullRangePool(token1, token2, FeeAmount.MEDIUM, liquidity)
+
+  describe('#priceImpact', () => {
+    it('is only the fee for a small trade', () => {
+      const trade = Trade.exactIn(new Route([pool_0_1], token0), new TokenAmount(token0, 1000000))
+      expect(trade.priceImpact.toSignificant(3)).toEqual('0.3')
+    })
+
+    it('grows with the size of the trade', () => {
+      const trade = Trade.exactIn(new Route([pool_0_1], token0), new TokenAmount(token0, '100000000000000000'))
+      expect(trade.priceImpact.toSignificant(3)).toEqual('9.34')
+    })
+
+    it('is measured against the mid price of the route', () => {
+      const trade = Trade.exactOut(new Route([pool_0_1, pool_1_2], token0), new TokenAmount(token2, 1000000))
+      expect(trade.priceImpact.toSignificant(3)).toEqual('0.599')
+    })
+  })
+
+  describe('#nextMidPrice', () => {
+    it('is the mid price of the pools after the trade', () => {
+      const trade = Trade.exactIn(new Route([pool_0_1], token0), new TokenAmount(token0, '100000000000000000'))
+      expect(trade.route.midPrice.toFixed(4)).toEqual('1.0000')
+      expect(trade.nextMidPrice.baseCurrency).toEqual(token0)
+      expect(trade.nextMidPrice.quoteCurrency).toEqual(token1)
+      expect(trade.nextMidPrice.toFixed(4)).toEqual('0.8269')
+    })
+
+    it('moves the price of the input down for exact output', () => {
+      const trade = Trade.exactOut(new Route([pool_0_1], token1), new TokenAmount(token0, '100000000000000000'))
+      expect(trade.nextMidPrice.toFixed(4)).toEqual('0.8100')
+    })
+  })
+
+  describe('#poolsAfter', () => {
+    it('is the state of the pools after the trade', () => {
+      const amount = new TokenAmount(token0, '100000000000000000')
+      const trade = Trade.exactIn(new Route([pool_0_1, pool_1_2], token0), amount)
+      const [amount1, pool_0_1_after] = pool_0_1.getOutputAmount(amount)
+      const [, pool_1_2_after] = pool_1_2.getOutputAmount(amount1)
+      expect(trade.poolsAfter.map(pool => pool.sqrtPriceX96)).toEqual([
+        pool_0_1_after.sqrtPriceX96,
+        pool_1_2_after.sqrtPriceX96
+      ])
+    })
+
+    it('executes a revisited pool against its state after the earlier hop', () => {
+      const amount = new TokenAmount(token0, '100000000000000000')
+      const trade = Trade.exactIn(new Route([pool_0_1, pool_0_1], token0), amount)
+      const [amount1, pool_0_1_after] = pool_0_1.getOutputAmount(amount)
+      const [amount0, pool_0_1_final] = pool_0_1_after.getOutputAmount(amount1)
+      expect(trade.outputAmount).toEqual(amount0)
+      // the first hop moved the price in favor of the second hop
+      expect(trade.outputAmount.greaterThan(pool_0_1.getOutputAmount(amount1)[0])).toBe(true)
+      expect(trade.poolsAfter[0]).toBe(trade.poolsAfter[1])
+      expect(trade.poolsAfter[0].sqrtPriceX96).toEqual(pool_0_1_final.sqrtPriceX96)
+    })
+
+    it('executes the hops of an exact output trade from the last to the first', () => {
+      const amount = new TokenAmount(token1, '100000000000000000')
+      const trade = Trade.exactOut(new Route([pool_0_1, pool_0_1], token1), amount)
+      const [amount0, pool_0_1_after] = pool_0_1.getInputAmount(amount)
+      const [amount1] = pool_0_1_after.getInputAmount(amount0)
+      expect(trade.inputAmount).toEqual(amount1)
+    })
+  })
+
+  describe('#executionContext', () => {
+    it('carries the pool state to the next trade', () => {
+      const amount = new TokenAmount(token0, '100000000000000000')
+      const route = new Route([pool_0_1], token0)
+      const first = Trade.exactIn(route, amount)
+      const second = Trade.exactIn(route, amount, first.executionContext)
+      expect(second.outputAmount).toEqual(first.poolsAfter[0].getOutputAmount(amount)[0])
+      expect(second.executionContext.getPool(pool_0_1)).toBe(second.poolsAfter[0])
+    })
+
+    it('does not change the context it is given', () => {
+      const context = new ExecutionContext()
+      Trade.exactIn(new Route([pool_0_1], token0), new TokenAmount(token0, 1000000), context)
+      expect(context.pools).toEqual([])
+    })
+  })
+
+  describe('async', () => {
+    // the same pool, but with its ticks only available through a tick data provider
+    function lazy(pool: Pool): Pool {
+      return new Pool(
+        pool.token0,
+        pool.token1,
+        pool.feeLevel,
+        pool.sqrtPriceX96,
+        pool.liquidity,
+        new TickListDataProvider(pool.tickList),
+        pool.tickCurrent
+      )
+    }
+    const route = new Route([lazy(pool_0_1), lazy(pool_1_2)], token0)
+    const amount = new TokenAmount(token0, '100000000000000000')
+
+    it('#exactInAsync matches exactIn', async () => {
+      const trade = await Trade.exactInAsync(route, amount)
+      const expected = Trade.exactIn(new Route([pool_0_1, pool_1_2], token0), amount)
+      expect(trade).toBeInstanceOf(Trade)
+      expect(trade.outputAmount).toEqual(expected.outputAmount)
+      expect(trade.priceImpact.toSignificant(6)).toEqual(expected.priceImpact.toSignificant(6))
+      expect(trade.poolsAfter.map(pool => pool.sqrtPriceX96)).toEqual(
+        expected.poolsAfter.map(pool => pool.sqrtPriceX96)
+      )
+    })
+
+    it('#exactOutAsync matches exactOut', async () => {
+      const amountOut = new TokenAmount(token2, '100000000000000000')
+      const trade = await Trade.exactOutAsync(route, amountOut)
+      expect(trade.inputAmount).toEqual(Trade.exactOut(new Route([pool_0_1, pool_1_2], token0), amountOut).inputAmount)
+    })
+
+    it('carries the execution context', async () => {
+      const first = await Trade.exactInAsync(route, amount)
+      const second = await Trade.exactInAsync(route, amount, first.executionContext)
+      expect(second.outputAmount.lessThan(first.outputAmount)).toBe(true)
+    })
+
+    it('rejects for the wrong input currency', async () => {
+      await expect(Trade.exactInAsync(route, new TokenAmount(token1, 1000000))).rejects.toThrow('INPUT')
+    })
+
+    it('requires the async variants for pools without a tick list', () => {
+      expect(() => Trade.exactIn(route, amount)).toThrow('TICK_LIST')
+    })
+  })
+})
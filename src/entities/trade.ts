@@ -4,7 +4,6 @@ import {
   CurrencyAmount,
   currencyEquals,
   ETHER,
-  Fraction,
   Percent,
   Price,
   sortedInsert,
@@ -14,7 +13,8 @@ import {
   WETH9
 } from '@uniswap/sdk-core'
 import invariant from 'tiny-invariant'
-import { ONE, ZERO } from '../constants'
+import { maximumAmountIn, minimumAmountOut } from '../utils/slippage'
+import { ExecutionContext } from './executionContext'
 import { Pool } from './pool'
 import { Route } from './route'
 
@@ -105,6 +105,78 @@ function wrappedCurrency(currency: Currency, chainId: ChainId): Token {
   invariant(false, 'CURRENCY')
 }
 
+/**
+ * The amounts along the token path of a trade and the state of the pools after the trade executes
+ */
+interface TradeExecution {
+  amounts: TokenAmount[]
+  executionContext: ExecutionContext
+}
+
+/**
+ * Executes each hop of the trade against the state left behind by the previous hops, which matters if a pool is
+ * revisited
+ */
+function executeTrade(
+  route: Route,
+  amount: CurrencyAmount,
+  tradeType: TradeType,
+  executionContext: ExecutionContext
+): TradeExecution {
+  const amounts: TokenAmount[] = new Array(route.tokenPath.length)
+  let context = executionContext
+  if (tradeType === TradeType.EXACT_INPUT) {
+    invariant(currencyEquals(amount.currency, route.input), 'INPUT')
+    amounts[0] = wrappedAmount(amount, route.chainId)
+    for (let i = 0; i < route.tokenPath.length - 1; i++) {
+      const [outputAmount, nextPool] = context.getPool(route.pools[i]).getOutputAmount(amounts[i])
+      amounts[i + 1] = outputAmount
+      context = context.withPools([nextPool])
+    }
+  } else {
+    invariant(currencyEquals(amount.currency, route.output), 'OUTPUT')
+    amounts[amounts.length - 1] = wrappedAmount(amount, route.chainId)
+    // exact output swaps execute from the last hop to the first
+    for (let i = route.tokenPath.length - 1; i > 0; i--) {
+      const [inputAmount, nextPool] = context.getPool(route.pools[i - 1]).getInputAmount(amounts[i])
+      amounts[i - 1] = inputAmount
+      context = context.withPools([nextPool])
+    }
+  }
+  return { amounts, executionContext: context }
+}
+
+/**
+ * Like `executeTrade`, but loads the ticks of each pool from its tick data provider
+ */
+async function executeTradeAsync(
+  route: Route,
+  amount: CurrencyAmount,
+  tradeType: TradeType,
+  executionContext: ExecutionContext
+): Promise<TradeExecution> {
+  const amounts: TokenAmount[] = new Array(route.tokenPath.length)
+  let context = executionContext
+  if (tradeType === TradeType.EXACT_INPUT) {
+    invariant(currencyEquals(amount.currency, route.input), 'INPUT')
+    amounts[0] = wrappedAmount(amount, route.chainId)
+    for (let i = 0; i < route.tokenPath.length - 1; i++) {
+      const [outputAmount, nextPool] = await context.getPool(route.pools[i]).getOutputAmountAsync(amounts[i])
+      amounts[i + 1] = outputAmount
+      context = context.withPools([nextPool])
+    }
+  } else {
+    invariant(currencyEquals(amount.currency, route.output), 'OUTPUT')
+    amounts[amounts.length - 1] = wrappedAmount(amount, route.chainId)
+    for (let i = route.tokenPath.length - 1; i > 0; i--) {
+      const [inputAmount, nextPool] = await context.getPool(route.pools[i - 1]).getInputAmountAsync(amounts[i])
+      amounts[i - 1] = inputAmount
+      context = context.withPools([nextPool])
+    }
+  }
+  return { amounts, executionContext: context }
+}
+
 /**
  * Represents a trade executed against a list of pools.
  * Does not account for slippage, i.e. trades that front run this trade and move the price.
@@ -113,98 +185,176 @@ export class Trade {
   /**
    * The route of the trade, i.e. which pools the trade goes through.
    */
-  public readonly route: Route
+  public readonly route!: Route
   /**
    * The type of the trade, either exact in or exact out.
    */
-  public readonly tradeType: TradeType
+  public readonly tradeType!: TradeType
   /**
    * The input amount for the trade assuming no slippage.
    */
-  public readonly inputAmount: CurrencyAmount
+  public readonly inputAmount!: CurrencyAmount
   /**
    * The output amount for the trade assuming no slippage.
    */
-  public readonly outputAmount: CurrencyAmount
+  public readonly outputAmount!: CurrencyAmount
   /**
    * The price expressed in terms of output amount/input amount.
    */
-  public readonly executionPrice: Price
+  public readonly executionPrice!: Price
   /**
    * The mid price after the trade executes assuming no slippage.
    */
-  // public readonly nextMidPrice: Price
+  public readonly nextMidPrice!: Price
   /**
    * The percent difference between the mid price before the trade and the trade execution price.
    */
-  public readonly priceImpact: Percent
+  public readonly priceImpact!: Percent
+  /**
+   * The state of the pools after the trade executes, to be passed to trades that execute after this trade.
+   */
+  public readonly executionContext!: ExecutionContext
+  /**
+   * The state of each pool of the route after the trade executes, i.e. after every hop through the pool.
+   */
+  public readonly poolsAfter!: Pool[]
 
   /**
    * Constructs an exact in trade with the given amount in and route
    * @param route route of the exact in trade
    * @param amountIn the amount being passed in
+   * @param executionContext the state of the pools left behind by the trades that execute before this trade
    */
-  public static exactIn(route: Route, amountIn: CurrencyAmount): Trade {
-    return new Trade(route, amountIn, TradeType.EXACT_INPUT)
+  public static exactIn(route: Route, amountIn: CurrencyAmount, executionContext?: ExecutionContext): Trade {
+    return new Trade(route, amountIn, TradeType.EXACT_INPUT, executionContext)
   }
 
   /**
    * Constructs an exact out trade with the given amount out and route
    * @param route route of the exact out trade
    * @param amountOut the amount returned by the trade
+   * @param executionContext the state of the pools left behind by the trades that execute before this trade
    */
-  public static exactOut(route: Route, amountOut: CurrencyAmount): Trade {
-    return new Trade(route, amountOut, TradeType.EXACT_OUTPUT)
+  public static exactOut(route: Route, amountOut: CurrencyAmount, executionContext?: ExecutionContext): Trade {
+    return new Trade(route, amountOut, TradeType.EXACT_OUTPUT, executionContext)
   }
 
-  public constructor(route: Route, amount: CurrencyAmount, tradeType: TradeType) {
-    const amounts: TokenAmount[] = new Array(route.tokenPath.length)
-    const nextPools: Pool[] = new Array(route.pools.length)
-    if (tradeType === TradeType.EXACT_INPUT) {
-      invariant(currencyEquals(amount.currency, route.input), 'INPUT')
-      amounts[0] = wrappedAmount(amount, route.chainId)
-      for (let i = 0; i < route.tokenPath.length - 1; i++) {
-        const pool = route.pools[i]
-        const [outputAmount, nextPool] = pool.getOutputAmount(amounts[i])
-        amounts[i + 1] = outputAmount
-        nextPools[i] = nextPool
-      }
-    } else {
-      invariant(currencyEquals(amount.currency, route.output), 'OUTPUT')
-      amounts[amounts.length - 1] = wrappedAmount(amount, route.chainId)
-      for (let i = route.tokenPath.length - 1; i > 0; i--) {
-        const pool = route.pools[i - 1]
-        const [inputAmount, nextPool] = pool.getInputAmount(amounts[i])
-        amounts[i - 1] = inputAmount
-        nextPools[i - 1] = nextPool
-      }
-    }
+  /**
+   * Constructs an exact in trade like `exactIn`, loading the ticks of each pool from its tick data provider
+   * @param route route of the exact in trade
+   * @param amountIn the amount being passed in
+   * @param executionContext the state of the pools left behind by the trades that execute before this trade
+   */
+  public static async exactInAsync(
+    route: Route,
+    amountIn: CurrencyAmount,
+    executionContext: ExecutionContext = new ExecutionContext()
+  ): Promise<Trade> {
+    const execution = await executeTradeAsync(route, amountIn, TradeType.EXACT_INPUT, executionContext)
+    return Trade.fromExecution(route, amountIn, TradeType.EXACT_INPUT, executionContext, execution)
+  }
+
+  /**
+   * Constructs an exact out trade like `exactOut`, loading the ticks of each pool from its tick data provider
+   * @param route route of the exact out trade
+   * @param amountOut the amount returned by the trade
+   * @param executionContext the state of the pools left behind by the trades that execute before this trade
+   */
+  public static async exactOutAsync(
+    route: Route,
+    amountOut: CurrencyAmount,
+    executionContext: ExecutionContext = new ExecutionContext()
+  ): Promise<Trade> {
+    const execution = await executeTradeAsync(route, amountOut, TradeType.EXACT_OUTPUT, executionContext)
+    return Trade.fromExecution(route, amountOut, TradeType.EXACT_OUTPUT, executionContext, execution)
+  }
+
+  /**
+   * Constructs a trade from the result of executing it with the same arguments, e.g. asynchronously
+   * @param route the route of the trade
+   * @param amount the amount in for an exact in trade, or the amount out for an exact out trade
+   * @param tradeType the type of the trade
+   * @param executionContext the state of the pools left behind by the trades that execute before this trade
+   * @param execution the result of executing the trade
+   */
+  private static fromExecution(
+    route: Route,
+    amount: CurrencyAmount,
+    tradeType: TradeType,
+    executionContext: ExecutionContext,
+    execution: TradeExecution
+  ): Trade {
+    const trade: Trade = Object.create(Trade.prototype)
+    trade.initialize(route, amount, tradeType, executionContext, execution)
+    return trade
+  }
 
-    this.route = route
-    this.tradeType = tradeType
-    this.inputAmount =
+  /**
+   * Constructs a trade, executing it against the pools of the route
+   * @param route the route of the trade
+   * @param amount the amount in for an exact in trade, or the amount out for an exact out trade
+   * @param tradeType the type of the trade
+   * @param executionContext the state of the pools left behind by the trades that execute before this trade
+   */
+  public constructor(
+    route: Route,
+    amount: CurrencyAmount,
+    tradeType: TradeType,
+    executionContext: ExecutionContext = new ExecutionContext()
+  ) {
+    this.initialize(
+      route,
+      amount,
+      tradeType,
+      executionContext,
+      executeTrade(route, amount, tradeType, executionContext)
+    )
+  }
+
+  /**
+   * Sets the fields of the trade from the result of executing it, shared by the constructor and `fromExecution`
+   * @param route the route of the trade
+   * @param amount the amount in for an exact in trade, or the amount out for an exact out trade
+   * @param tradeType the type of the trade
+   * @param executionContext the state of the pools left behind by the trades that execute before this trade
+   * @param execution the result of executing the trade
+   */
+  private initialize(
+    route: Route,
+    amount: CurrencyAmount,
+    tradeType: TradeType,
+    executionContext: ExecutionContext,
+    { amounts, executionContext: context }: TradeExecution
+  ): void {
+    const poolsBefore = route.pools.map(pool => executionContext.getPool(pool))
+    const inputAmount =
       tradeType === TradeType.EXACT_INPUT
         ? amount
         : route.input === ETHER
         ? CurrencyAmount.ether(amounts[0].raw)
         : amounts[0]
-    this.outputAmount =
+    const outputAmount =
       tradeType === TradeType.EXACT_OUTPUT
         ? amount
         : route.output === ETHER
         ? CurrencyAmount.ether(amounts[amounts.length - 1].raw)
         : amounts[amounts.length - 1]
-    this.executionPrice = new Price(
-      this.inputAmount.currency,
-      this.outputAmount.currency,
-      this.inputAmount.raw,
-      this.outputAmount.raw
-    )
-    this.priceImpact = computePriceImpact(
-      /*should equal route.midPrice*/ this.executionPrice,
-      this.inputAmount,
-      this.outputAmount
-    )
+    const poolsAfter = route.pools.map(pool => context.getPool(pool))
+    const midPrice = poolsBefore.every((pool, i) => pool === route.pools[i])
+      ? route.midPrice
+      : new Route(poolsBefore, route.input, route.output).midPrice
+    // the fields are readonly outside of construction
+    Object.assign(this, {
+      route,
+      tradeType,
+      inputAmount,
+      outputAmount,
+      executionPrice: new Price(inputAmount.currency, outputAmount.currency, inputAmount.raw, outputAmount.raw),
+      executionContext: context,
+      poolsAfter,
+      nextMidPrice: new Route(poolsAfter, route.input, route.output).midPrice,
+      priceImpact: computePriceImpact(midPrice, inputAmount, outputAmount)
+    })
   }
 
   /**
@@ -212,18 +362,7 @@ export class Trade {
    * @param slippageTolerance tolerance of unfavorable slippage from the execution price of this trade
    */
   public minimumAmountOut(slippageTolerance: Percent): CurrencyAmount {
-    invariant(!slippageTolerance.lessThan(ZERO), 'SLIPPAGE_TOLERANCE')
-    if (this.tradeType === TradeType.EXACT_OUTPUT) {
-      return this.outputAmount
-    } else {
-      const slippageAdjustedAmountOut = new Fraction(ONE)
-        .add(slippageTolerance)
-        .invert()
-        .multiply(this.outputAmount.raw).quotient
-      return this.outputAmount instanceof TokenAmount
-        ? new TokenAmount(this.outputAmount.token, slippageAdjustedAmountOut)
-        : CurrencyAmount.ether(slippageAdjustedAmountOut)
-    }
+    return minimumAmountOut(this, slippageTolerance)
   }
 
   /**
@@ -231,22 +370,14 @@ export class Trade {
    * @param slippageTolerance tolerance of unfavorable slippage from the execution price of this trade
    */
   public maximumAmountIn(slippageTolerance: Percent): CurrencyAmount {
-    invariant(!slippageTolerance.lessThan(ZERO), 'SLIPPAGE_TOLERANCE')
-    if (this.tradeType === TradeType.EXACT_INPUT) {
-      return this.inputAmount
-    } else {
-      const slippageAdjustedAmountIn = new Fraction(ONE).add(slippageTolerance).multiply(this.inputAmount.raw).quotient
-      return this.inputAmount instanceof TokenAmount
-        ? new TokenAmount(this.inputAmount.token, slippageAdjustedAmountIn)
-        : CurrencyAmount.ether(slippageAdjustedAmountIn)
-    }
+    return maximumAmountIn(this, slippageTolerance)
   }
 
   /**
    * Given a list of pools, and a fixed amount in, returns the top `maxNumResults` trades that go from an input token
    * amount to an output token, making at most `maxHops` hops.
    * Note this does not consider aggregation, as routes are linear. It's possible a better route exists by splitting
-   * the amount in among multiple routes.
+   * the amount in among multiple routes, see `SplitTrade.bestSplitTradeExactIn`.
    * @param pools the pools to consider in finding the best trade
    * @param currencyAmountIn exact amount of input currency to spend
    * @param currencyOut the desired currency out
@@ -283,14 +414,13 @@ export class Trade {
       const pool = pools[i]
       // pool irrelevant
       if (!pool.token0.equals(amountIn.token) && !pool.token1.equals(amountIn.token)) continue
-      if (pool.reserve0.equalTo(ZERO) || pool.reserve1.equalTo(ZERO)) continue
 
       let amountOut: TokenAmount
       try {
         ;[amountOut] = pool.getOutputAmount(amountIn)
       } catch (error) {
-        // input too low
-        if (error.isInsufficientInputAmountError) {
+        // input too low, or not enough liquidity in this pool
+        if (error.isInsufficientInputAmountError || error.isInsufficientReservesError) {
           continue
         }
         throw error
@@ -334,7 +464,7 @@ export class Trade {
    * given a list of pools, and a fixed amount out, returns the top `maxNumResults` trades that go from an input token
    * to an output token amount, making at most `maxHops` hops
    * note this does not consider aggregation, as routes are linear. it's possible a better route exists by splitting
-   * the amount in among multiple routes.
+   * the amount in among multiple routes, see `SplitTrade.bestSplitTradeExactOut`.
    * @param pools the pools to consider in finding the best trade
    * @param currencyIn the currency to spend
    * @param currencyAmountOut the exact amount of currency out
@@ -371,7 +501,6 @@ export class Trade {
       const pool = pools[i]
       // pool irrelevant
       if (!pool.token0.equals(amountOut.token) && !pool.token1.equals(amountOut.token)) continue
-      if (pool.reserve0.equalTo(ZERO) || pool.reserve1.equalTo(ZERO)) continue
 
       let amountIn: TokenAmount
       try {
@@ -2,5 +2,10 @@ export { FACTORY_ADDRESS, INIT_CODE_HASH } from './constants'
 
 export * from './errors'
 export * from './entities'
-export * from './router'
+export * from './multicall'
+export * from './nonfungiblePositionManager'
+export * from './poolState'
+export * from './quoter'
+export * from './selfPermit'
+export * from './swapRouter'
 export * from './utils'
@@ -0,0 +1,27 @@
+import { Multicall } from './multicall'
+
+describe('Multicall', () => {
+  describe('#encodeMulticall', () => {
+    it('works for a string', () => {
+      expect(Multicall.encodeMulticall('0x01')).toEqual('0x01')
+    })
+
+    it('returns the call for a single call', () => {
+      expect(Multicall.encodeMulticall(['0x01'])).toEqual('0x01')
+    })
+
+    it('batches multiple calls', () => {
+      const calldata = Multicall.encodeMulticall(['0x01', '0x02'])
+      expect(calldata.slice(0, 10)).toEqual('0xac9650d8')
+      expect(Multicall.INTERFACE.decodeFunctionData('multicall(bytes[])', calldata).data).toEqual(['0x01', '0x02'])
+    })
+
+    it('batches the calls with a deadline', () => {
+      const calldata = Multicall.encodeMulticall(['0x01'], 123)
+      expect(calldata.slice(0, 10)).toEqual('0x5ae401dc')
+      const { deadline, data } = Multicall.INTERFACE.decodeFunctionData('multicall(uint256,bytes[])', calldata)
+      expect(deadline.toString()).toEqual('123')
+      expect(data).toEqual(['0x01'])
+    })
+  })
+})
@@ -0,0 +1,38 @@
+import { Interface } from '@ethersproject/abi'
+import { BigintIsh } from '@uniswap/sdk-core'
+import { toHex } from './utils'
+
+/**
+ * Represents the multicall methods shared by the Uniswap V3 periphery contracts, and has static methods for batching
+ * calls to a contract into a single transaction.
+ */
+export abstract class Multicall {
+  public static INTERFACE: Interface = new Interface([
+    'function multicall(bytes[] data) payable returns (bytes[] results)',
+    'function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)'
+  ])
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Combines the calls into a single multicall, unless there is only one call and no deadline
+   * @param calldatas the calldata of each call, in the order they are executed
+   * @param deadline if given, the unix timestamp after which the multicall reverts
+   */
+  public static encodeMulticall(calldatas: string | string[], deadline?: BigintIsh): string {
+    if (!Array.isArray(calldatas)) {
+      calldatas = [calldatas]
+    }
+
+    if (deadline !== undefined) {
+      return Multicall.INTERFACE.encodeFunctionData('multicall(uint256,bytes[])', [toHex(deadline), calldatas])
+    }
+
+    return calldatas.length === 1
+      ? calldatas[0]
+      : Multicall.INTERFACE.encodeFunctionData('multicall(bytes[])', [calldatas])
+  }
+}
@@ -0,0 +1,332 @@
+import { Result } from '@ethersproject/abi'
+import { ChainId, Percent, Token, WETH9 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { FeeAmount, MaxUint128, Q96 } from './constants'
+import { Pool } from './entities/pool'
+import { Position } from './entities/position'
+import { NonfungiblePositionManager } from './nonfungiblePositionManager'
+import { decodeCalls, makeFullRangeTickList } from './testUtils'
+
+describe('NonfungiblePositionManager', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const weth = WETH9[ChainId.MAINNET]
+  const recipient = '0x0000000000000000000000000000000000000003'
+  const ticks = makeFullRangeTickList(FeeAmount.MEDIUM, 0)
+  const pool_0_1 = new Pool(token0, token1, FeeAmount.MEDIUM, Q96, 0, ticks)
+  const pool_1_weth = new Pool(token1, weth, FeeAmount.MEDIUM, Q96, 0, ticks)
+
+  const slippageTolerance = new Percent(1, 100)
+  const deadline = 123
+
+  function decode(calldata: string): [string, Result][] {
+    return decodeCalls(NonfungiblePositionManager.INTERFACE, calldata)
+  }
+
+  describe('#addCallParameters', () => {
+    it('throws if liquidity is 0', () => {
+      expect(() =>
+        NonfungiblePositionManager.addCallParameters(
+          new Position({ pool: pool_0_1, tickLower: -60, tickUpper: 60, liquidity: 0 }),
+          { recipient, slippageTolerance, deadline }
+        )
+      ).toThrow('ZERO_LIQUIDITY')
+    })
+
+    it('mint', () => {
+      const position = new Position({ pool: pool_0_1, tickLower: -60, tickUpper: 60, liquidity: 1 })
+      const { calldata, value } = NonfungiblePositionManager.addCallParameters(position, {
+        recipient,
+        slippageTolerance,
+        deadline
+      })
+
+      const calls = decode(calldata)
+      expect(calls.map(([name]) => name)).toEqual(['mint'])
+      const [[, { params }]] = calls
+      expect(params.token0).toEqual(token0.address)
+      expect(params.token1).toEqual(token1.address)
+      expect(params.fee).toEqual(FeeAmount.MEDIUM)
+      expect(params.tickLower).toEqual(-60)
+      expect(params.tickUpper).toEqual(60)
+      expect(params.amount0Desired.toString()).toEqual('1')
+      expect(params.amount1Desired.toString()).toEqual('1')
+      expect(params.amount0Min.toString()).toEqual('0')
+      expect(params.amount1Min.toString()).toEqual('0')
+      expect(params.recipient).toEqual(recipient)
+      expect(params.deadline.toString()).toEqual('123')
+      expect(value).toEqual('0x00')
+    })
+
+    it('bounds the minimum amounts by the prices the slippage tolerance allows', () => {
+      const position = new Position({
+        pool: pool_0_1,
+        tickLower: -600,
+        tickUpper: 600,
+        liquidity: JSBI.BigInt('1000000000000000000')
+      })
+      const { calldata } = NonfungiblePositionManager.addCallParameters(position, {
+        recipient,
+        slippageTolerance,
+        deadline
+      })
+
+      const [[, { params }]] = decode(calldata)
+      const { amount0, amount1 } = position.mintAmounts
+      expect(params.amount0Desired.toString()).toEqual(amount0.toString())
+      expect(params.amount1Desired.toString()).toEqual(amount1.toString())
+      // less token0 is added at the price 1% higher, and less token1 at the price 1% lower
+      expect(params.amount0Min.toString()).toEqual('21039444843364827')
+      expect(params.amount1Min.toString()).toEqual('20966371933451327')
+    })
+
+    it('has zero minimum amounts if the allowed prices leave the range', () => {
+      const position = new Position({
+        pool: pool_0_1,
+        tickLower: -60,
+        tickUpper: 60,
+        liquidity: JSBI.BigInt('1000000000000000000')
+      })
+      const { calldata } = NonfungiblePositionManager.addCallParameters(position, {
+        recipient,
+        slippageTolerance,
+        deadline
+      })
+
+      const [[, { params }]] = decode(calldata)
+      expect(params.amount0Min.toString()).toEqual('0')
+      expect(params.amount1Min.toString()).toEqual('0')
+    })
+
+    it('throws for an invalid slippage tolerance', () => {
+      const position = new Position({ pool: pool_0_1, tickLower: -60, tickUpper: 60, liquidity: 1 })
+      expect(() =>
+        NonfungiblePositionManager.addCallParameters(position, {
+          recipient,
+          slippageTolerance: new Percent(-1, 100),
+          deadline
+        })
+      ).toThrow('SLIPPAGE_TOLERANCE')
+      expect(() =>
+        NonfungiblePositionManager.addCallParameters(position, {
+          recipient,
+          slippageTolerance: new Percent(101, 100),
+          deadline
+        })
+      ).toThrow('SLIPPAGE_TOLERANCE')
+    })
+
+    it('mint when the pool does not exist', () => {
+      const position = new Position({ pool: pool_0_1, tickLower: -60, tickUpper: 60, liquidity: 1 })
+      const { calldata, value } = NonfungiblePositionManager.addCallParameters(position, {
+        recipient,
+        slippageTolerance,
+        deadline,
+        createPool: true
+      })
+
+      const calls = decode(calldata)
+      expect(calls.map(([name]) => name)).toEqual(['createAndInitializePoolIfNecessary', 'mint'])
+      const [[, createArgs]] = calls
+      expect(createArgs.token0).toEqual(token0.address)
+      expect(createArgs.token1).toEqual(token1.address)
+      expect(createArgs.fee).toEqual(FeeAmount.MEDIUM)
+      expect(createArgs.sqrtPriceX96.toString()).toEqual(Q96.toString())
+      expect(value).toEqual('0x00')
+    })
+
+    it('increase liquidity', () => {
+      const position = new Position({ pool: pool_0_1, tickLower: -60, tickUpper: 60, liquidity: 1 })
+      const { calldata, value } = NonfungiblePositionManager.addCallParameters(position, {
+        tokenId: 1,
+        slippageTolerance,
+        deadline
+      })
+
+      const calls = decode(calldata)
+      expect(calls.map(([name]) => name)).toEqual(['increaseLiquidity'])
+      const [[, { params }]] = calls
+      expect(params.tokenId.toString()).toEqual('1')
+      expect(params.amount0Desired.toString()).toEqual('1')
+      expect(params.amount1Desired.toString()).toEqual('1')
+      expect(params.deadline.toString()).toEqual('123')
+      expect(value).toEqual('0x00')
+    })
+
+    it('sends and refunds ether', () => {
+      const position = new Position({ pool: pool_1_weth, tickLower: -60, tickUpper: 60, liquidity: 1 })
+      const { calldata, value } = NonfungiblePositionManager.addCallParameters(position, {
+        recipient,
+        slippageTolerance,
+        deadline,
+        useEther: true
+      })
+
+      expect(decode(calldata).map(([name]) => name)).toEqual(['mint', 'refundETH'])
+      expect(value).toEqual('0x01')
+    })
+
+    it('permits the tokens', () => {
+      const position = new Position({ pool: pool_0_1, tickLower: -60, tickUpper: 60, liquidity: 1 })
+      const permit = {
+        v: 27 as const,
+        r: '0x0000000000000000000000000000000000000000000000000000000000000001',
+        s: '0x0000000000000000000000000000000000000000000000000000000000000002'
+      }
+      const { calldata } = NonfungiblePositionManager.addCallParameters(position, {
+        recipient,
+        slippageTolerance,
+        deadline,
+        token0Permit: { ...permit, amount: 1, deadline },
+        token1Permit: { ...permit, nonce: 0, expiry: deadline }
+      })
+
+      const calls = decode(calldata)
+      expect(calls.map(([name]) => name)).toEqual(['selfPermit', 'selfPermitAllowed', 'mint'])
+      const [[, permit0Args], [, permit1Args]] = calls
+      expect(permit0Args.token).toEqual(token0.address)
+      expect(permit1Args.token).toEqual(token1.address)
+    })
+
+    it('throws if ether is used without a weth pool', () => {
+      const position = new Position({ pool: pool_0_1, tickLower: -60, tickUpper: 60, liquidity: 1 })
+      expect(() =>
+        NonfungiblePositionManager.addCallParameters(position, {
+          recipient,
+          slippageTolerance,
+          deadline,
+          useEther: true
+        })
+      ).toThrow('NO_WETH')
+    })
+  })
+
+  describe('#collectCallParameters', () => {
+    it('collects everything owed by default', () => {
+      const { calldata, value } = NonfungiblePositionManager.collectCallParameters({ tokenId: 1, recipient })
+
+      const calls = decode(calldata)
+      expect(calls.map(([name]) => name)).toEqual(['collect'])
+      const [[, { params }]] = calls
+      expect(params.tokenId.toString()).toEqual('1')
+      expect(params.recipient).toEqual(recipient)
+      expect(params.amount0Max.toString()).toEqual(MaxUint128.toString())
+      expect(params.amount1Max.toString()).toEqual(MaxUint128.toString())
+      expect(value).toEqual('0x00')
+    })
+
+    it('collects up to the given amounts', () => {
+      const { calldata } = NonfungiblePositionManager.collectCallParameters({
+        tokenId: 1,
+        recipient,
+        amount0Max: 10,
+        amount1Max: 20
+      })
+
+      const [[, { params }]] = decode(calldata)
+      expect(params.amount0Max.toString()).toEqual('10')
+      expect(params.amount1Max.toString()).toEqual('20')
+    })
+  })
+
+  describe('#removeCallParameters', () => {
+    const position = new Position({ pool: pool_0_1, tickLower: -60, tickUpper: 60, liquidity: 100 })
+
+    it('removes part of the liquidity', () => {
+      const { calldata, value } = NonfungiblePositionManager.removeCallParameters(position, {
+        tokenId: 1,
+        liquidityPercentage: new Percent(1, 2),
+        slippageTolerance,
+        deadline,
+        recipient
+      })
+
+      const calls = decode(calldata)
+      expect(calls.map(([name]) => name)).toEqual(['decreaseLiquidity', 'collect'])
+      const [[, { params: decreaseParams }], [, { params: collectParams }]] = calls
+      expect(decreaseParams.tokenId.toString()).toEqual('1')
+      expect(decreaseParams.liquidity.toString()).toEqual('50')
+      expect(decreaseParams.amount0Min.toString()).toEqual('0')
+      expect(decreaseParams.amount1Min.toString()).toEqual('0')
+      expect(decreaseParams.deadline.toString()).toEqual('123')
+      expect(collectParams.recipient).toEqual(recipient)
+      expect(collectParams.amount0Max.toString()).toEqual(MaxUint128.toString())
+      expect(value).toEqual('0x00')
+    })
+
+    it('bounds the minimum amounts by the prices the slippage tolerance allows', () => {
+      const { calldata } = NonfungiblePositionManager.removeCallParameters(
+        new Position({
+          pool: pool_0_1,
+          tickLower: -600,
+          tickUpper: 600,
+          liquidity: JSBI.BigInt('1000000000000000000')
+        }),
+        { tokenId: 1, liquidityPercentage: new Percent(1), slippageTolerance, deadline, recipient }
+      )
+
+      const [[, { params }]] = decode(calldata)
+      expect(params.amount0Min.toString()).toEqual('24590201089126305')
+      expect(params.amount1Min.toString()).toEqual('24540447985757124')
+    })
+
+    it('burns the token', () => {
+      const { calldata } = NonfungiblePositionManager.removeCallParameters(position, {
+        tokenId: 1,
+        liquidityPercentage: new Percent(1),
+        slippageTolerance,
+        deadline,
+        recipient,
+        burnToken: true
+      })
+
+      expect(decode(calldata).map(([name]) => name)).toEqual(['decreaseLiquidity', 'collect', 'burn'])
+    })
+
+    it('throws if burning without removing all the liquidity', () => {
+      expect(() =>
+        NonfungiblePositionManager.removeCallParameters(position, {
+          tokenId: 1,
+          liquidityPercentage: new Percent(1, 2),
+          slippageTolerance,
+          deadline,
+          recipient,
+          burnToken: true
+        })
+      ).toThrow('CANNOT_BURN')
+    })
+
+    it('throws for an invalid liquidity percentage', () => {
+      expect(() =>
+        NonfungiblePositionManager.removeCallParameters(position, {
+          tokenId: 1,
+          liquidityPercentage: new Percent(0),
+          slippageTolerance,
+          deadline,
+          recipient
+        })
+      ).toThrow('LIQUIDITY_PERCENTAGE')
+      expect(() =>
+        NonfungiblePositionManager.removeCallParameters(position, {
+          tokenId: 1,
+          liquidityPercentage: new Percent(101, 100),
+          slippageTolerance,
+          deadline,
+          recipient
+        })
+      ).toThrow('LIQUIDITY_PERCENTAGE')
+    })
+
+    it('throws if no liquidity is removed', () => {
+      expect(() =>
+        NonfungiblePositionManager.removeCallParameters(position, {
+          tokenId: 1,
+          liquidityPercentage: new Percent(1, 1000),
+          slippageTolerance,
+          deadline,
+          recipient
+        })
+      ).toThrow('ZERO_LIQUIDITY')
+    })
+  })
+})
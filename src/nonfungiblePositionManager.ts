@@ -0,0 +1,395 @@
+import { Interface } from '@ethersproject/abi'
+import { BigintIsh, ChainId, Fraction, Percent, validateAndParseAddress, WETH9 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { MaxUint128, ONE, ZERO } from './constants'
+import { Position } from './entities/position'
+import { Multicall } from './multicall'
+import { PermitOptions, SelfPermit } from './selfPermit'
+import { maxLiquidityForAmounts, MethodParameters, sqrt, SqrtPriceMath, TickMath, toHex } from './utils'
+
+const ABI = [
+  'function createAndInitializePoolIfNecessary(address token0, address token1, uint24 fee, uint160 sqrtPriceX96) payable returns (address pool)',
+  'function mint(tuple(address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, address recipient, uint256 deadline) params) payable returns (uint256 tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'function increaseLiquidity(tuple(uint256 tokenId, uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params) payable returns (uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'function decreaseLiquidity(tuple(uint256 tokenId, uint128 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params) payable returns (uint256 amount0, uint256 amount1)',
+  'function collect(tuple(uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max) params) payable returns (uint256 amount0, uint256 amount1)',
+  'function burn(uint256 tokenId) payable',
+  'function refundETH() payable'
+]
+
+export interface MintSpecificOptions {
+  /**
+   * The account that should receive the minted NFT.
+   */
+  recipient: string
+
+  /**
+   * Creates the pool and initializes it at the price of the position's pool if it does not exist yet. The calldata
+   * does not know whether the pool exists, so callers must set this when minting into a pool that may not exist,
+   * otherwise the mint reverts.
+   */
+  createPool?: boolean
+}
+
+export interface IncreaseSpecificOptions {
+  /**
+   * The ID of the position to increase the liquidity of.
+   */
+  tokenId: BigintIsh
+}
+
+/**
+ * Options for producing the calldata to add liquidity.
+ */
+export interface CommonAddLiquidityOptions {
+  /**
+   * How much the pool price is allowed to move, up or down. The minimum amounts are those that would be added at the
+   * price moved by this fraction.
+   */
+  slippageTolerance: Percent
+
+  /**
+   * When the transaction expires, in epoch seconds.
+   */
+  deadline: BigintIsh
+
+  /**
+   * Whether to spend ether. If true, one of the pool tokens must be WETH, and any unspent ether is refunded.
+   */
+  useEther?: boolean
+
+  /**
+   * The optional permit signature for spending token0.
+   */
+  token0Permit?: PermitOptions
+
+  /**
+   * The optional permit signature for spending token1.
+   */
+  token1Permit?: PermitOptions
+}
+
+export type MintOptions = CommonAddLiquidityOptions & MintSpecificOptions
+export type IncreaseOptions = CommonAddLiquidityOptions & IncreaseSpecificOptions
+
+export type AddLiquidityOptions = MintOptions | IncreaseOptions
+
+/**
+ * Options for producing the calldata to collect the tokens owed to a position.
+ */
+export interface CollectOptions {
+  /**
+   * The ID of the position to collect for.
+   */
+  tokenId: BigintIsh
+
+  /**
+   * The account that should receive the tokens.
+   */
+  recipient: string
+
+  /**
+   * The maximum amount of token0 to collect, defaults to everything that is owed.
+   */
+  amount0Max?: BigintIsh
+
+  /**
+   * The maximum amount of token1 to collect, defaults to everything that is owed.
+   */
+  amount1Max?: BigintIsh
+}
+
+/**
+ * Options for producing the calldata to exit a position.
+ */
+export interface RemoveLiquidityOptions {
+  /**
+   * The ID of the position to exit.
+   */
+  tokenId: BigintIsh
+
+  /**
+   * The percentage of the position's liquidity to remove, greater than 0 and at most 100%.
+   */
+  liquidityPercentage: Percent
+
+  /**
+   * How much the pool price is allowed to move, up or down. The minimum amounts are those that would be received at
+   * the price moved by this fraction.
+   */
+  slippageTolerance: Percent
+
+  /**
+   * When the transaction expires, in epoch seconds.
+   */
+  deadline: BigintIsh
+
+  /**
+   * The account that should receive the tokens of the removed liquidity, along with any fees owed.
+   */
+  recipient: string
+
+  /**
+   * Whether the NFT should be burned after exiting the position, which requires removing all of its liquidity.
+   */
+  burnToken?: boolean
+}
+
+function isMint(options: AddLiquidityOptions): options is MintOptions {
+  return 'recipient' in options
+}
+
+/**
+ * Returns the lowest and highest sqrt prices the pool price may move to, i.e. the current price moved down and up by
+ * the slippage tolerance, within the prices supported by the pool
+ * @param sqrtPriceX96 the current sqrt price of the pool
+ * @param slippageTolerance the fraction by which the price may move
+ */
+function slippageSqrtPrices(sqrtPriceX96: JSBI, slippageTolerance: Percent): [JSBI, JSBI] {
+  invariant(!slippageTolerance.lessThan(ZERO) && !slippageTolerance.greaterThan(ONE), 'SLIPPAGE_TOLERANCE')
+  const priceX192 = JSBI.multiply(sqrtPriceX96, sqrtPriceX96)
+  const sqrtPriceLowerX96 = sqrt(new Fraction(ONE).subtract(slippageTolerance).multiply(priceX192).quotient)
+  const sqrtPriceUpperX96 = sqrt(new Fraction(ONE).add(slippageTolerance).multiply(priceX192).quotient)
+  return [
+    JSBI.greaterThan(sqrtPriceLowerX96, TickMath.MIN_SQRT_RATIO) ? sqrtPriceLowerX96 : TickMath.MIN_SQRT_RATIO,
+    JSBI.lessThan(sqrtPriceUpperX96, TickMath.MAX_SQRT_RATIO)
+      ? sqrtPriceUpperX96
+      : JSBI.subtract(TickMath.MAX_SQRT_RATIO, ONE)
+  ]
+}
+
+/**
+ * Returns the amounts of a position's range that the given liquidity is worth at the given sqrt price
+ * @param position the position whose range to use
+ * @param sqrtPriceX96 the sqrt price of the pool
+ * @param liquidity the liquidity in the range
+ * @param roundUp whether to round the amounts up, as the pool does for adding liquidity, or down, as for removing it
+ */
+function amountsAtSqrtPrice(
+  { tickLower, tickUpper }: Position,
+  sqrtPriceX96: JSBI,
+  liquidity: JSBI,
+  roundUp: boolean
+): { amount0: JSBI; amount1: JSBI } {
+  const sqrtRatioAX96 = TickMath.getSqrtRatioAtTick(tickLower)
+  const sqrtRatioBX96 = TickMath.getSqrtRatioAtTick(tickUpper)
+  if (JSBI.lessThanOrEqual(sqrtPriceX96, sqrtRatioAX96)) {
+    return { amount0: SqrtPriceMath.getAmount0Delta(sqrtRatioAX96, sqrtRatioBX96, liquidity, roundUp), amount1: ZERO }
+  } else if (JSBI.lessThan(sqrtPriceX96, sqrtRatioBX96)) {
+    return {
+      amount0: SqrtPriceMath.getAmount0Delta(sqrtPriceX96, sqrtRatioBX96, liquidity, roundUp),
+      amount1: SqrtPriceMath.getAmount1Delta(sqrtRatioAX96, sqrtPriceX96, liquidity, roundUp)
+    }
+  } else {
+    return { amount0: ZERO, amount1: SqrtPriceMath.getAmount1Delta(sqrtRatioAX96, sqrtRatioBX96, liquidity, roundUp) }
+  }
+}
+
+/**
+ * Returns the minimum amounts that are added for the desired amounts if the pool price moves by at most the slippage
+ * tolerance, i.e. what the pool takes for the liquidity the desired amounts are worth at either price bound.
+ * Less token0 is taken at higher prices, and less token1 at lower prices.
+ * @param position the position being added
+ * @param amount0Desired the amount of token0 sent
+ * @param amount1Desired the amount of token1 sent
+ * @param slippageTolerance how much the pool price may move
+ */
+function minimumAmountsAdded(
+  position: Position,
+  amount0Desired: JSBI,
+  amount1Desired: JSBI,
+  slippageTolerance: Percent
+): { amount0: JSBI; amount1: JSBI } {
+  const sqrtRatioAX96 = TickMath.getSqrtRatioAtTick(position.tickLower)
+  const sqrtRatioBX96 = TickMath.getSqrtRatioAtTick(position.tickUpper)
+  const [sqrtPriceLowerX96, sqrtPriceUpperX96] = slippageSqrtPrices(position.pool.sqrtPriceX96, slippageTolerance)
+  const added = (sqrtPriceX96: JSBI) =>
+    amountsAtSqrtPrice(
+      position,
+      sqrtPriceX96,
+      maxLiquidityForAmounts(sqrtPriceX96, sqrtRatioAX96, sqrtRatioBX96, amount0Desired, amount1Desired),
+      true
+    )
+  return { amount0: added(sqrtPriceUpperX96).amount0, amount1: added(sqrtPriceLowerX96).amount1 }
+}
+
+/**
+ * Returns the minimum amounts that are received for removing the position if the pool price moves by at most the
+ * slippage tolerance. Less token0 is received at higher prices, and less token1 at lower prices.
+ * @param position the position being removed
+ * @param slippageTolerance how much the pool price may move
+ */
+function minimumAmountsRemoved(position: Position, slippageTolerance: Percent): { amount0: JSBI; amount1: JSBI } {
+  const [sqrtPriceLowerX96, sqrtPriceUpperX96] = slippageSqrtPrices(position.pool.sqrtPriceX96, slippageTolerance)
+  return {
+    amount0: amountsAtSqrtPrice(position, sqrtPriceUpperX96, position.liquidity, false).amount0,
+    amount1: amountsAtSqrtPrice(position, sqrtPriceLowerX96, position.liquidity, false).amount1
+  }
+}
+
+/**
+ * Represents the Uniswap V3 NonfungiblePositionManager, and has static methods for producing the calldata to manage
+ * positions.
+ */
+export abstract class NonfungiblePositionManager {
+  public static INTERFACE: Interface = new Interface(ABI)
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Produces the calldata for minting a position, or increasing the liquidity of an existing position, by the
+   * liquidity of the given position.
+   * @param position the position to mint, or the liquidity to add to an existing position
+   * @param options options for the calldata
+   */
+  public static addCallParameters(position: Position, options: AddLiquidityOptions): MethodParameters {
+    invariant(JSBI.greaterThan(position.liquidity, ZERO), 'ZERO_LIQUIDITY')
+
+    const calldatas: string[] = []
+
+    if (options.token0Permit) {
+      calldatas.push(SelfPermit.encodePermit(position.pool.token0, options.token0Permit))
+    }
+    if (options.token1Permit) {
+      calldatas.push(SelfPermit.encodePermit(position.pool.token1, options.token1Permit))
+    }
+
+    const { amount0: amount0Desired, amount1: amount1Desired } = position.mintAmounts
+    const minimumAmounts = minimumAmountsAdded(position, amount0Desired, amount1Desired, options.slippageTolerance)
+    const amount0Min = toHex(minimumAmounts.amount0)
+    const amount1Min = toHex(minimumAmounts.amount1)
+    const deadline = toHex(options.deadline)
+
+    if (isMint(options)) {
+      if (options.createPool) {
+        calldatas.push(
+          NonfungiblePositionManager.INTERFACE.encodeFunctionData('createAndInitializePoolIfNecessary', [
+            position.pool.token0.address,
+            position.pool.token1.address,
+            position.pool.feeLevel,
+            toHex(position.pool.sqrtPriceX96)
+          ])
+        )
+      }
+
+      calldatas.push(
+        NonfungiblePositionManager.INTERFACE.encodeFunctionData('mint', [
+          {
+            token0: position.pool.token0.address,
+            token1: position.pool.token1.address,
+            fee: position.pool.feeLevel,
+            tickLower: position.tickLower,
+            tickUpper: position.tickUpper,
+            amount0Desired: toHex(amount0Desired),
+            amount1Desired: toHex(amount1Desired),
+            amount0Min,
+            amount1Min,
+            recipient: validateAndParseAddress(options.recipient),
+            deadline
+          }
+        ])
+      )
+    } else {
+      calldatas.push(
+        NonfungiblePositionManager.INTERFACE.encodeFunctionData('increaseLiquidity', [
+          {
+            tokenId: toHex(options.tokenId),
+            amount0Desired: toHex(amount0Desired),
+            amount1Desired: toHex(amount1Desired),
+            amount0Min,
+            amount1Min,
+            deadline
+          }
+        ])
+      )
+    }
+
+    let value: JSBI = ZERO
+    if (options.useEther) {
+      const weth = WETH9[position.pool.chainId as ChainId]
+      invariant(weth && position.pool.involvesToken(weth), 'NO_WETH')
+      value = position.pool.token0.equals(weth) ? amount0Desired : amount1Desired
+      // the manager keeps any ether that is not spent, unless it is explicitly refunded
+      calldatas.push(NonfungiblePositionManager.INTERFACE.encodeFunctionData('refundETH'))
+    }
+
+    return {
+      calldata: Multicall.encodeMulticall(calldatas),
+      value: toHex(value)
+    }
+  }
+
+  /**
+   * Produces the calldata for collecting the tokens owed to a position.
+   * @param options options for the calldata
+   */
+  public static collectCallParameters(options: CollectOptions): MethodParameters {
+    return {
+      calldata: NonfungiblePositionManager.encodeCollect(options),
+      value: toHex(ZERO)
+    }
+  }
+
+  /**
+   * Produces the calldata for removing a percentage of the liquidity of a position, and collecting the resulting
+   * tokens along with any fees owed.
+   * @param position the position to exit, with the liquidity the position currently holds
+   * @param options options for the calldata
+   */
+  public static removeCallParameters(position: Position, options: RemoveLiquidityOptions): MethodParameters {
+    invariant(
+      options.liquidityPercentage.greaterThan(ZERO) && !options.liquidityPercentage.greaterThan(ONE),
+      'LIQUIDITY_PERCENTAGE'
+    )
+    const calldatas: string[] = []
+
+    // the position of the liquidity that is being removed
+    const partialPosition = new Position({
+      pool: position.pool,
+      liquidity: options.liquidityPercentage.multiply(position.liquidity).quotient,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper
+    })
+    invariant(JSBI.greaterThan(partialPosition.liquidity, ZERO), 'ZERO_LIQUIDITY')
+    const minimumAmounts = minimumAmountsRemoved(partialPosition, options.slippageTolerance)
+
+    calldatas.push(
+      NonfungiblePositionManager.INTERFACE.encodeFunctionData('decreaseLiquidity', [
+        {
+          tokenId: toHex(options.tokenId),
+          liquidity: toHex(partialPosition.liquidity),
+          amount0Min: toHex(minimumAmounts.amount0),
+          amount1Min: toHex(minimumAmounts.amount1),
+          deadline: toHex(options.deadline)
+        }
+      ])
+    )
+
+    calldatas.push(NonfungiblePositionManager.encodeCollect({ tokenId: options.tokenId, recipient: options.recipient }))
+
+    if (options.burnToken) {
+      invariant(options.liquidityPercentage.equalTo(ONE), 'CANNOT_BURN')
+      calldatas.push(NonfungiblePositionManager.INTERFACE.encodeFunctionData('burn', [toHex(options.tokenId)]))
+    }
+
+    return {
+      calldata: Multicall.encodeMulticall(calldatas),
+      value: toHex(ZERO)
+    }
+  }
+
+  private static encodeCollect({ tokenId, recipient, amount0Max, amount1Max }: CollectOptions): string {
+    return NonfungiblePositionManager.INTERFACE.encodeFunctionData('collect', [
+      {
+        tokenId: toHex(tokenId),
+        recipient: validateAndParseAddress(recipient),
+        amount0Max: toHex(amount0Max ?? MaxUint128),
+        amount1Max: toHex(amount1Max ?? MaxUint128)
+      }
+    ])
+  }
+}
@@ -0,0 +1,167 @@
+import { defaultAbiCoder } from '@ethersproject/abi'
+import { ChainId, Token, TokenAmount } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { FeeAmount, Q128, Q96 } from './constants'
+import { PoolStateEncoder } from './poolState'
+import { maxUsableTick, minUsableTick } from './utils'
+
+describe('PoolStateEncoder', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const liquidity = JSBI.BigInt('1000000000000000000')
+
+  function slot0ReturnData(observationIndex = 0, observationCardinality = 1) {
+    return defaultAbiCoder.encode(
+      ['uint160', 'int24', 'uint16', 'uint16', 'uint16', 'uint8', 'bool'],
+      [Q96.toString(), 0, observationIndex, observationCardinality, 5, 0, true]
+    )
+  }
+  function ticksReturnData(liquidityNet: JSBI) {
+    return defaultAbiCoder.encode(
+      ['uint128', 'int128', 'uint256', 'uint256', 'int56', 'uint160', 'uint32', 'bool'],
+      [liquidity.toString(), liquidityNet.toString(), Q128.toString(), 2, -3, 4, 5, true]
+    )
+  }
+  function observationsReturnData(blockTimestamp: number, tickCumulative: number) {
+    return defaultAbiCoder.encode(['uint32', 'int56', 'uint160', 'bool'], [blockTimestamp, tickCumulative, 6, true])
+  }
+
+  describe('calldata', () => {
+    it('encodes the view methods without arguments', () => {
+      expect(PoolStateEncoder.encodeSlot0()).toEqual('0x3850c7bd')
+      expect(PoolStateEncoder.encodeLiquidity()).toEqual('0x1a686502')
+      expect(PoolStateEncoder.encodeFeeGrowthGlobal0X128()).toEqual('0xf3058399')
+      expect(PoolStateEncoder.encodeFeeGrowthGlobal1X128()).toEqual('0x46141319')
+    })
+
+    it('encodes the view methods with arguments', () => {
+      expect(PoolStateEncoder.encodeTicks(-60)).toEqual(
+        '0xf30dba93ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc4'
+      )
+      expect(PoolStateEncoder.encodeTickBitmap(-1)).toEqual(
+        '0x5339c296ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff'
+      )
+      expect(PoolStateEncoder.encodeObservations(2)).toEqual(
+        '0x252c09d70000000000000000000000000000000000000000000000000000000000000002'
+      )
+    })
+  })
+
+  describe('#decodeSlot0', () => {
+    it('decodes every field', () => {
+      expect(PoolStateEncoder.decodeSlot0(slot0ReturnData(2, 3))).toEqual({
+        sqrtPriceX96: Q96,
+        tick: 0,
+        observationIndex: 2,
+        observationCardinality: 3,
+        observationCardinalityNext: 5,
+        feeProtocol: 0,
+        unlocked: true
+      })
+    })
+  })
+
+  describe('#decodeLiquidity', () => {
+    it('decodes the liquidity', () => {
+      expect(PoolStateEncoder.decodeLiquidity(defaultAbiCoder.encode(['uint128'], [liquidity.toString()]))).toEqual(
+        liquidity
+      )
+    })
+  })
+
+  describe('#decodeTicks', () => {
+    it('decodes a tick', () => {
+      const tick = PoolStateEncoder.decodeTicks(-60, ticksReturnData(JSBI.multiply(liquidity, JSBI.BigInt(-1))))
+      expect(tick.index).toEqual(-60)
+      expect(tick.liquidityGross).toEqual(liquidity)
+      expect(tick.liquidityNet).toEqual(JSBI.multiply(liquidity, JSBI.BigInt(-1)))
+      expect(tick.feeGrowthOutside0X128).toEqual(Q128)
+      expect(tick.feeGrowthOutside1X128).toEqual(JSBI.BigInt(2))
+    })
+  })
+
+  describe('#decodeTickBitmap', () => {
+    it('returns the initialized ticks of the word', () => {
+      const returnData = defaultAbiCoder.encode(['uint256'], [JSBI.add(JSBI.BigInt(5), Q128).toString()])
+      expect(PoolStateEncoder.decodeTickBitmap(0, 60, returnData)).toEqual([0, 2 * 60, 128 * 60])
+      expect(PoolStateEncoder.decodeTickBitmap(-1, 60, returnData)).toEqual([-256 * 60, -254 * 60, -128 * 60])
+    })
+
+    it('returns no ticks for an empty word', () => {
+      expect(PoolStateEncoder.decodeTickBitmap(3, 10, defaultAbiCoder.encode(['uint256'], [0]))).toEqual([])
+    })
+  })
+
+  describe('#decodeFeeGrowthGlobal', () => {
+    it('decodes the fee growth of each token', () => {
+      expect(
+        PoolStateEncoder.decodeFeeGrowthGlobal0X128(defaultAbiCoder.encode(['uint256'], [Q128.toString()]))
+      ).toEqual(Q128)
+      expect(PoolStateEncoder.decodeFeeGrowthGlobal1X128(defaultAbiCoder.encode(['uint256'], [7]))).toEqual(
+        JSBI.BigInt(7)
+      )
+    })
+  })
+
+  describe('#decodeObservations', () => {
+    it('decodes an observation', () => {
+      const observation = PoolStateEncoder.decodeObservations(observationsReturnData(10, -100))
+      expect(observation.blockTimestamp).toEqual(10)
+      expect(observation.tickCumulative).toEqual(JSBI.BigInt(-100))
+      expect(observation.secondsPerLiquidityCumulativeX128).toEqual(JSBI.BigInt(6))
+      expect(observation.initialized).toBe(true)
+    })
+  })
+
+  describe('#toPool', () => {
+    const ticks = [
+      PoolStateEncoder.decodeTicks(
+        maxUsableTick(FeeAmount.MEDIUM),
+        ticksReturnData(JSBI.multiply(liquidity, JSBI.BigInt(-1)))
+      ),
+      PoolStateEncoder.decodeTicks(minUsableTick(FeeAmount.MEDIUM), ticksReturnData(liquidity))
+    ]
+
+    it('assembles the pool from the decoded state', () => {
+      const pool = PoolStateEncoder.toPool(token1, token0, FeeAmount.MEDIUM, {
+        slot0: PoolStateEncoder.decodeSlot0(slot0ReturnData()),
+        liquidity,
+        ticks
+      })
+      expect(pool.token0).toEqual(token0)
+      expect(pool.sqrtPriceX96).toEqual(Q96)
+      expect(pool.tickCurrent).toEqual(0)
+      expect(pool.tickList.values.map(tick => tick.index)).toEqual([
+        minUsableTick(FeeAmount.MEDIUM),
+        maxUsableTick(FeeAmount.MEDIUM)
+      ])
+      expect(pool.oracle).toBeUndefined()
+      expect(pool.getOutputAmount(new TokenAmount(token0, 100))[0].raw).toEqual(JSBI.BigInt(98))
+    })
+
+    it('assembles the oracle from the observations', () => {
+      const pool = PoolStateEncoder.toPool(token0, token1, FeeAmount.MEDIUM, {
+        slot0: PoolStateEncoder.decodeSlot0(slot0ReturnData(1, 2)),
+        liquidity,
+        ticks,
+        observations: [
+          PoolStateEncoder.decodeObservations(observationsReturnData(0, 0)),
+          PoolStateEncoder.decodeObservations(observationsReturnData(10, -100))
+        ]
+      })
+      expect(pool.oracle?.index).toEqual(1)
+      expect(pool.oracle?.cardinality).toEqual(2)
+      expect(pool.getTimeWeightedAverageTick(10, 10)).toEqual(-10)
+    })
+
+    it('validates the liquidity against the ticks', () => {
+      expect(() =>
+        PoolStateEncoder.toPool(token0, token1, FeeAmount.MEDIUM, {
+          slot0: PoolStateEncoder.decodeSlot0(slot0ReturnData()),
+          liquidity: JSBI.BigInt(1),
+          ticks
+        })
+      ).toThrow('LIQUIDITY')
+    })
+  })
+})
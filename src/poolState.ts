@@ -0,0 +1,252 @@
+import { Interface } from '@ethersproject/abi'
+import { Token } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { FeeAmount, ONE, ZERO } from './constants'
+import { Observation } from './entities/observation'
+import { Oracle } from './entities/oracle'
+import { Pool } from './entities/pool'
+import { Tick } from './entities/tick'
+import { TickList } from './entities/tickList'
+
+const ABI = [
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function liquidity() view returns (uint128)',
+  'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+  'function tickBitmap(int16 wordPosition) view returns (uint256)',
+  'function feeGrowthGlobal0X128() view returns (uint256)',
+  'function feeGrowthGlobal1X128() view returns (uint256)',
+  'function observations(uint256 index) view returns (uint32 blockTimestamp, int56 tickCumulative, uint160 secondsPerLiquidityCumulativeX128, bool initialized)'
+]
+
+/**
+ * The decoded return data of slot0, i.e. the price, tick and oracle configuration of a pool.
+ */
+export interface Slot0 {
+  sqrtPriceX96: JSBI
+  tick: number
+  /**
+   * The index of the most recently written observation.
+   */
+  observationIndex: number
+  /**
+   * The number of populated observations.
+   */
+  observationCardinality: number
+  /**
+   * The number of observations the ring buffer will grow to on the next write.
+   */
+  observationCardinalityNext: number
+  feeProtocol: number
+  unlocked: boolean
+}
+
+/**
+ * The decoded state of a pool, from which the pool can be assembled.
+ */
+export interface PoolState {
+  slot0: Slot0
+  liquidity: JSBI
+  /**
+   * The initialized ticks of the pool, e.g. the ticks found in its tick bitmap.
+   */
+  ticks: Tick[]
+  /**
+   * The first `observationCardinality` observations of the pool, needed for time weighted average prices.
+   */
+  observations?: Observation[]
+}
+
+// the ABI coder returns numbers for small integer types and big numbers for the others
+function toJSBI(value: { toString(): string }): JSBI {
+  return JSBI.BigInt(value.toString())
+}
+
+/**
+ * Represents the state view methods of a Uniswap V3 pool, and has static methods for producing their calldata, e.g. to
+ * batch the calls through a multicall contract, and decoding the data they return.
+ */
+export abstract class PoolStateEncoder {
+  public static INTERFACE: Interface = new Interface(ABI)
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  public static encodeSlot0(): string {
+    return PoolStateEncoder.INTERFACE.encodeFunctionData('slot0')
+  }
+
+  public static encodeLiquidity(): string {
+    return PoolStateEncoder.INTERFACE.encodeFunctionData('liquidity')
+  }
+
+  /**
+   * Produces the calldata for reading a tick of the pool.
+   * @param tick the index of the tick
+   */
+  public static encodeTicks(tick: number): string {
+    return PoolStateEncoder.INTERFACE.encodeFunctionData('ticks', [tick])
+  }
+
+  /**
+   * Produces the calldata for reading a word of the tick bitmap of the pool.
+   * @param wordPosition the position of the word, i.e. the tick divided by the tick spacing, shifted right by 8 bits
+   */
+  public static encodeTickBitmap(wordPosition: number): string {
+    return PoolStateEncoder.INTERFACE.encodeFunctionData('tickBitmap', [wordPosition])
+  }
+
+  public static encodeFeeGrowthGlobal0X128(): string {
+    return PoolStateEncoder.INTERFACE.encodeFunctionData('feeGrowthGlobal0X128')
+  }
+
+  public static encodeFeeGrowthGlobal1X128(): string {
+    return PoolStateEncoder.INTERFACE.encodeFunctionData('feeGrowthGlobal1X128')
+  }
+
+  /**
+   * Produces the calldata for reading an observation of the pool oracle.
+   * @param index the index of the observation in the observations array
+   */
+  public static encodeObservations(index: number): string {
+    return PoolStateEncoder.INTERFACE.encodeFunctionData('observations', [index])
+  }
+
+  /**
+   * Decodes the data returned by slot0.
+   * @param returnData the hex encoded data returned by the pool
+   */
+  public static decodeSlot0(returnData: string): Slot0 {
+    const [
+      sqrtPriceX96,
+      tick,
+      observationIndex,
+      observationCardinality,
+      observationCardinalityNext,
+      feeProtocol,
+      unlocked
+    ] = PoolStateEncoder.INTERFACE.decodeFunctionResult('slot0', returnData)
+    return {
+      sqrtPriceX96: toJSBI(sqrtPriceX96),
+      tick,
+      observationIndex,
+      observationCardinality,
+      observationCardinalityNext,
+      feeProtocol,
+      unlocked
+    }
+  }
+
+  /**
+   * Decodes the in range liquidity returned by liquidity.
+   * @param returnData the hex encoded data returned by the pool
+   */
+  public static decodeLiquidity(returnData: string): JSBI {
+    const [liquidity] = PoolStateEncoder.INTERFACE.decodeFunctionResult('liquidity', returnData)
+    return toJSBI(liquidity)
+  }
+
+  /**
+   * Decodes the data returned by ticks into a tick.
+   * @param tick the index of the tick that was read
+   * @param returnData the hex encoded data returned by the pool
+   */
+  public static decodeTicks(tick: number, returnData: string): Tick {
+    const [
+      liquidityGross,
+      liquidityNet,
+      feeGrowthOutside0X128,
+      feeGrowthOutside1X128
+    ] = PoolStateEncoder.INTERFACE.decodeFunctionResult('ticks', returnData)
+    return new Tick({
+      index: tick,
+      liquidityGross: toJSBI(liquidityGross),
+      liquidityNet: toJSBI(liquidityNet),
+      feeGrowthOutside0X128: toJSBI(feeGrowthOutside0X128),
+      feeGrowthOutside1X128: toJSBI(feeGrowthOutside1X128)
+    })
+  }
+
+  /**
+   * Decodes a word of the tick bitmap into the initialized ticks it contains, from least to greatest.
+   * @param wordPosition the position of the word that was read
+   * @param tickSpacing the tick spacing of the pool
+   * @param returnData the hex encoded data returned by the pool
+   */
+  public static decodeTickBitmap(wordPosition: number, tickSpacing: number, returnData: string): number[] {
+    const [word] = PoolStateEncoder.INTERFACE.decodeFunctionResult('tickBitmap', returnData)
+    const bitmap = toJSBI(word)
+    const ticks: number[] = []
+    for (let bit = 0; bit < 256; bit++) {
+      if (JSBI.notEqual(JSBI.bitwiseAnd(JSBI.signedRightShift(bitmap, JSBI.BigInt(bit)), ONE), ZERO)) {
+        ticks.push(((wordPosition << 8) + bit) * tickSpacing)
+      }
+    }
+    return ticks
+  }
+
+  /**
+   * Decodes the all-time fee growth per unit of liquidity in token0 returned by feeGrowthGlobal0X128.
+   * @param returnData the hex encoded data returned by the pool
+   */
+  public static decodeFeeGrowthGlobal0X128(returnData: string): JSBI {
+    const [feeGrowthGlobal0X128] = PoolStateEncoder.INTERFACE.decodeFunctionResult('feeGrowthGlobal0X128', returnData)
+    return toJSBI(feeGrowthGlobal0X128)
+  }
+
+  /**
+   * Decodes the all-time fee growth per unit of liquidity in token1 returned by feeGrowthGlobal1X128.
+   * @param returnData the hex encoded data returned by the pool
+   */
+  public static decodeFeeGrowthGlobal1X128(returnData: string): JSBI {
+    const [feeGrowthGlobal1X128] = PoolStateEncoder.INTERFACE.decodeFunctionResult('feeGrowthGlobal1X128', returnData)
+    return toJSBI(feeGrowthGlobal1X128)
+  }
+
+  /**
+   * Decodes the data returned by observations into an observation.
+   * @param returnData the hex encoded data returned by the pool
+   */
+  public static decodeObservations(returnData: string): Observation {
+    const [
+      blockTimestamp,
+      tickCumulative,
+      secondsPerLiquidityCumulativeX128,
+      initialized
+    ] = PoolStateEncoder.INTERFACE.decodeFunctionResult('observations', returnData)
+    return new Observation({
+      blockTimestamp,
+      tickCumulative: toJSBI(tickCumulative),
+      secondsPerLiquidityCumulativeX128: toJSBI(secondsPerLiquidityCumulativeX128),
+      initialized
+    })
+  }
+
+  /**
+   * Assembles a pool from its decoded state, validating it like the pool constructor.
+   * @param tokenA one of the tokens in the pool
+   * @param tokenB the other token in the pool
+   * @param fee the fee level of the pool
+   * @param state the decoded state of the pool
+   */
+  public static toPool(
+    tokenA: Token,
+    tokenB: Token,
+    fee: FeeAmount,
+    { slot0, liquidity, ticks, observations }: PoolState
+  ): Pool {
+    return new Pool(
+      tokenA,
+      tokenB,
+      fee,
+      slot0.sqrtPriceX96,
+      liquidity,
+      new TickList({ ticks }),
+      slot0.tick,
+      observations === undefined
+        ? undefined
+        : new Oracle({ observations, index: slot0.observationIndex, cardinality: slot0.observationCardinality })
+    )
+  }
+}
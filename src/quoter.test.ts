@@ -0,0 +1,139 @@
+import { defaultAbiCoder } from '@ethersproject/abi'
+import { ChainId, CurrencyAmount, ETHER, Token, TokenAmount, TradeType, WETH9 } from '@uniswap/sdk-core'
+import { FeeAmount } from './constants'
+import { Route } from './entities/route'
+import { Trade } from './entities/trade'
+import { QuoterEncoder } from './quoter'
+import { makeFullRangePool } from './testUtils'
+import { encodeRouteToPath } from './utils'
+
+describe('QuoterEncoder', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const weth = WETH9[ChainId.MAINNET]
+
+  const pool_0_1 = makeFullRangePool(token0, token1, FeeAmount.MEDIUM)
+  const pool_weth_0 = makeFullRangePool(weth, token0, FeeAmount.LOW)
+
+  describe('#quoteCallParameters', () => {
+    it('single hop exact input', () => {
+      const { calldata, value } = QuoterEncoder.quoteCallParameters(
+        new Route([pool_0_1], token0),
+        new TokenAmount(token0, 100),
+        TradeType.EXACT_INPUT
+      )
+
+      const { name, args } = QuoterEncoder.INTERFACE.parseTransaction({ data: calldata })
+      expect(name).toEqual('quoteExactInputSingle')
+      expect(args.tokenIn).toEqual(token0.address)
+      expect(args.tokenOut).toEqual(token1.address)
+      expect(args.fee).toEqual(FeeAmount.MEDIUM)
+      expect(args.amountIn.toString()).toEqual('100')
+      expect(args.sqrtPriceLimitX96.toString()).toEqual('0')
+      expect(value).toEqual('0x00')
+    })
+
+    it('single hop exact output with a price limit', () => {
+      const { calldata } = QuoterEncoder.quoteCallParameters(
+        new Route([pool_0_1], token0),
+        new TokenAmount(token1, 100),
+        TradeType.EXACT_OUTPUT,
+        { sqrtPriceLimitX96: 2 }
+      )
+
+      const { name, args } = QuoterEncoder.INTERFACE.parseTransaction({ data: calldata })
+      expect(name).toEqual('quoteExactOutputSingle')
+      expect(args.amountOut.toString()).toEqual('100')
+      expect(args.sqrtPriceLimitX96.toString()).toEqual('2')
+    })
+
+    it('multi hop exact input', () => {
+      const route = new Route([pool_weth_0, pool_0_1], ETHER, token1)
+      const { calldata } = QuoterEncoder.quoteCallParameters(route, CurrencyAmount.ether(100), TradeType.EXACT_INPUT)
+
+      const { name, args } = QuoterEncoder.INTERFACE.parseTransaction({ data: calldata })
+      expect(name).toEqual('quoteExactInput')
+      expect(args.path).toEqual(encodeRouteToPath(route, false))
+      expect(args.amountIn.toString()).toEqual('100')
+    })
+
+    it('multi hop exact output', () => {
+      const route = new Route([pool_weth_0, pool_0_1], weth, token1)
+      const { calldata } = QuoterEncoder.quoteCallParameters(
+        route,
+        new TokenAmount(token1, 100),
+        TradeType.EXACT_OUTPUT
+      )
+
+      const { name, args } = QuoterEncoder.INTERFACE.parseTransaction({ data: calldata })
+      expect(name).toEqual('quoteExactOutput')
+      expect(args.path).toEqual(encodeRouteToPath(route, true))
+      expect(args.amountOut.toString()).toEqual('100')
+    })
+
+    it('throws if the amount is not in the route input or output', () => {
+      const route = new Route([pool_0_1], token0)
+      expect(() =>
+        QuoterEncoder.quoteCallParameters(route, new TokenAmount(token1, 100), TradeType.EXACT_INPUT)
+      ).toThrow('INPUT')
+      expect(() =>
+        QuoterEncoder.quoteCallParameters(route, new TokenAmount(token0, 100), TradeType.EXACT_OUTPUT)
+      ).toThrow('OUTPUT')
+    })
+
+    it('throws for a price limit on a multi hop route', () => {
+      expect(() =>
+        QuoterEncoder.quoteCallParameters(
+          new Route([pool_weth_0, pool_0_1], weth),
+          new TokenAmount(weth, 100),
+          TradeType.EXACT_INPUT,
+          { sqrtPriceLimitX96: 2 }
+        )
+      ).toThrow('MULTIHOP_PRICE_LIMIT')
+    })
+  })
+
+  describe('#quoteTradeCallParameters', () => {
+    it('quotes the exact amount of the trade', () => {
+      const trade = Trade.exactOut(new Route([pool_0_1], token0), new TokenAmount(token1, 100))
+      const { calldata } = QuoterEncoder.quoteTradeCallParameters(trade)
+
+      const { name, args } = QuoterEncoder.INTERFACE.parseTransaction({ data: calldata })
+      expect(name).toEqual('quoteExactOutputSingle')
+      expect(args.amountOut.toString()).toEqual('100')
+    })
+  })
+
+  describe('#decodeQuoteResult', () => {
+    const returnData = defaultAbiCoder.encode(['uint256'], [98])
+
+    it('decodes the output amount of exact input', () => {
+      expect(QuoterEncoder.decodeQuoteResult(new Route([pool_0_1], token0), TradeType.EXACT_INPUT, returnData)).toEqual(
+        new TokenAmount(token1, 98)
+      )
+    })
+
+    it('decodes the input amount of exact output', () => {
+      expect(
+        QuoterEncoder.decodeQuoteResult(new Route([pool_0_1], token0), TradeType.EXACT_OUTPUT, returnData)
+      ).toEqual(new TokenAmount(token0, 98))
+    })
+
+    it('decodes ether amounts', () => {
+      expect(
+        QuoterEncoder.decodeQuoteResult(new Route([pool_weth_0], token0, ETHER), TradeType.EXACT_INPUT, returnData)
+      ).toEqual(CurrencyAmount.ether(98))
+    })
+
+    it('matches the trade amount', () => {
+      const route = new Route([pool_weth_0, pool_0_1], weth)
+      const trade = Trade.exactIn(route, new TokenAmount(weth, 100))
+      const quoted = QuoterEncoder.decodeQuoteResult(
+        route,
+        TradeType.EXACT_INPUT,
+        defaultAbiCoder.encode(['uint256'], [trade.outputAmount.raw.toString()])
+      )
+      expect(quoted).toEqual(trade.outputAmount)
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { Interface } from '@ethersproject/abi'
+import { BigintIsh, CurrencyAmount, currencyEquals, Token, TokenAmount, TradeType } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { ZERO } from './constants'
+import { Route } from './entities/route'
+import { Trade } from './entities/trade'
+import { encodeRouteToPath, MethodParameters, toHex } from './utils'
+
+const ABI = [
+  'function quoteExactInputSingle(address tokenIn, address tokenOut, uint24 fee, uint256 amountIn, uint160 sqrtPriceLimitX96) returns (uint256 amountOut)',
+  'function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut)',
+  'function quoteExactOutputSingle(address tokenIn, address tokenOut, uint24 fee, uint256 amountOut, uint160 sqrtPriceLimitX96) returns (uint256 amountIn)',
+  'function quoteExactOutput(bytes path, uint256 amountOut) returns (uint256 amountIn)'
+]
+
+/**
+ * Options for producing the calldata to quote a swap.
+ */
+export interface QuoteOptions {
+  /**
+   * The Q64.96 sqrt price at which the swap stops, only allowed for routes through a single pool.
+   */
+  sqrtPriceLimitX96?: BigintIsh
+}
+
+/**
+ * Returns the name of the quoter method for a swap through the route
+ * @param route the route of the swap
+ * @param tradeType whether the swap is exact input or exact output
+ */
+function quoteMethodName(route: Route, tradeType: TradeType): string {
+  const singleHop = route.pools.length === 1
+  return tradeType === TradeType.EXACT_INPUT
+    ? singleHop
+      ? 'quoteExactInputSingle'
+      : 'quoteExactInput'
+    : singleHop
+    ? 'quoteExactOutputSingle'
+    : 'quoteExactOutput'
+}
+
+/**
+ * Represents the Uniswap V3 Quoter, and has static methods for producing the calldata to quote swaps on-chain and
+ * decoding the quoted amounts.
+ */
+export abstract class QuoterEncoder {
+  public static INTERFACE: Interface = new Interface(ABI)
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Produces the calldata for quoting a swap of the given amount through the route.
+   * @param route the route of the swap
+   * @param amount the exact input amount, or the exact output amount, of the swap
+   * @param tradeType whether the amount is the input or the output of the swap
+   * @param options options for the calldata
+   */
+  public static quoteCallParameters(
+    route: Route,
+    amount: CurrencyAmount,
+    tradeType: TradeType,
+    options: QuoteOptions = {}
+  ): MethodParameters {
+    const exactInput = tradeType === TradeType.EXACT_INPUT
+    invariant(currencyEquals(amount.currency, exactInput ? route.input : route.output), exactInput ? 'INPUT' : 'OUTPUT')
+
+    const singleHop = route.pools.length === 1
+    invariant(singleHop || options.sqrtPriceLimitX96 === undefined, 'MULTIHOP_PRICE_LIMIT')
+
+    const methodName = quoteMethodName(route, tradeType)
+    const calldata = singleHop
+      ? QuoterEncoder.INTERFACE.encodeFunctionData(methodName, [
+          route.tokenPath[0].address,
+          route.tokenPath[1].address,
+          route.pools[0].feeLevel,
+          toHex(amount.raw),
+          toHex(options.sqrtPriceLimitX96 ?? ZERO)
+        ])
+      : QuoterEncoder.INTERFACE.encodeFunctionData(methodName, [
+          encodeRouteToPath(route, !exactInput),
+          toHex(amount.raw)
+        ])
+
+    return {
+      calldata,
+      value: toHex(ZERO)
+    }
+  }
+
+  /**
+   * Produces the calldata for quoting the given trade.
+   * @param trade the trade to quote
+   * @param options options for the calldata
+   */
+  public static quoteTradeCallParameters(trade: Trade, options: QuoteOptions = {}): MethodParameters {
+    return QuoterEncoder.quoteCallParameters(
+      trade.route,
+      trade.tradeType === TradeType.EXACT_INPUT ? trade.inputAmount : trade.outputAmount,
+      trade.tradeType,
+      options
+    )
+  }
+
+  /**
+   * Decodes the data returned by a quote, i.e. the output amount of an exact input swap, or the input amount of an
+   * exact output swap.
+   * @param route the route of the quoted swap
+   * @param tradeType whether the quoted swap is exact input or exact output
+   * @param returnData the hex encoded data returned by the quoter
+   */
+  public static decodeQuoteResult(route: Route, tradeType: TradeType, returnData: string): CurrencyAmount {
+    const [amount] = QuoterEncoder.INTERFACE.decodeFunctionResult(quoteMethodName(route, tradeType), returnData)
+    const currency = tradeType === TradeType.EXACT_INPUT ? route.output : route.input
+    const raw = JSBI.BigInt(amount.toString())
+    return currency instanceof Token ? new TokenAmount(currency, raw) : CurrencyAmount.ether(raw)
+  }
+}
@@ -0,0 +1,32 @@
+import { ChainId, Token } from '@uniswap/sdk-core'
+import { SelfPermit } from './selfPermit'
+
+describe('SelfPermit', () => {
+  const token = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const r = '0x0000000000000000000000000000000000000000000000000000000000000001'
+  const s = '0x0000000000000000000000000000000000000000000000000000000000000002'
+
+  describe('#encodePermit', () => {
+    it('encodes a standard permit', () => {
+      const calldata = SelfPermit.encodePermit(token, { v: 27, r, s, amount: 123, deadline: 456 })
+      const { name, args } = SelfPermit.INTERFACE.parseTransaction({ data: calldata })
+      expect(name).toEqual('selfPermit')
+      expect(args.token).toEqual(token.address)
+      expect(args.value.toString()).toEqual('123')
+      expect(args.deadline.toString()).toEqual('456')
+      expect(args.v).toEqual(27)
+      expect(args.r).toEqual(r)
+      expect(args.s).toEqual(s)
+    })
+
+    it('encodes an allowed permit', () => {
+      const calldata = SelfPermit.encodePermit(token, { v: 28, r, s, nonce: 1, expiry: 456 })
+      const { name, args } = SelfPermit.INTERFACE.parseTransaction({ data: calldata })
+      expect(name).toEqual('selfPermitAllowed')
+      expect(args.token).toEqual(token.address)
+      expect(args.nonce.toString()).toEqual('1')
+      expect(args.expiry.toString()).toEqual('456')
+      expect(args.v).toEqual(28)
+    })
+  })
+})
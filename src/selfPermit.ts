@@ -0,0 +1,84 @@
+import { Interface } from '@ethersproject/abi'
+import { BigintIsh, Token } from '@uniswap/sdk-core'
+import { toHex } from './utils'
+
+/**
+ * The signature of an EIP-2612 permit, which approves the spending of an amount of a token.
+ */
+export interface StandardPermitArguments {
+  v: 0 | 1 | 27 | 28
+  r: string
+  s: string
+  /**
+   * The amount of the token that is approved.
+   */
+  amount: BigintIsh
+  /**
+   * When the permit expires, in epoch seconds.
+   */
+  deadline: BigintIsh
+}
+
+/**
+ * The signature of a DAI-style permit, which approves the spending of an unlimited amount of a token.
+ */
+export interface AllowedPermitArguments {
+  v: 0 | 1 | 27 | 28
+  r: string
+  s: string
+  /**
+   * The nonce of the holder of the token.
+   */
+  nonce: BigintIsh
+  /**
+   * When the permit expires, in epoch seconds.
+   */
+  expiry: BigintIsh
+}
+
+export type PermitOptions = StandardPermitArguments | AllowedPermitArguments
+
+function isAllowedPermit(permitOptions: PermitOptions): permitOptions is AllowedPermitArguments {
+  return 'nonce' in permitOptions
+}
+
+/**
+ * Represents the self permit methods shared by the Uniswap V3 periphery contracts, and has static methods for
+ * producing the calldata that approves a contract to spend a token with a signed permit.
+ */
+export abstract class SelfPermit {
+  public static INTERFACE: Interface = new Interface([
+    'function selfPermit(address token, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) payable',
+    'function selfPermitAllowed(address token, uint256 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s) payable'
+  ])
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Produces the calldata for approving the contract to spend the token with the given permit signature
+   * @param token the token that the permit is for
+   * @param options the permit signature
+   */
+  public static encodePermit(token: Token, options: PermitOptions): string {
+    return isAllowedPermit(options)
+      ? SelfPermit.INTERFACE.encodeFunctionData('selfPermitAllowed', [
+          token.address,
+          toHex(options.nonce),
+          toHex(options.expiry),
+          options.v,
+          options.r,
+          options.s
+        ])
+      : SelfPermit.INTERFACE.encodeFunctionData('selfPermit', [
+          token.address,
+          toHex(options.amount),
+          toHex(options.deadline),
+          options.v,
+          options.r,
+          options.s
+        ])
+  }
+}
@@ -0,0 +1,182 @@
+import { Result } from '@ethersproject/abi'
+import { ChainId, CurrencyAmount, ETHER, Percent, Token, TokenAmount, WETH9 } from '@uniswap/sdk-core'
+import { FeeAmount } from './constants'
+import { Route } from './entities/route'
+import { Trade } from './entities/trade'
+import { SwapRouter } from './swapRouter'
+import { decodeCalls, makeFullRangePool } from './testUtils'
+import { toHex } from './utils'
+
+describe('SwapRouter', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const weth = WETH9[ChainId.MAINNET]
+  const recipient = '0x0000000000000000000000000000000000000003'
+
+  const pool_0_1 = makeFullRangePool(token0, token1, FeeAmount.MEDIUM)
+  const pool_weth_0 = makeFullRangePool(weth, token0, FeeAmount.LOW)
+
+  const slippageTolerance = new Percent(1, 100)
+  const deadline = 123
+
+  function decode(calldata: string): [string, Result][] {
+    return decodeCalls(SwapRouter.INTERFACE, calldata)
+  }
+
+  describe('#swapCallParameters', () => {
+    describe('exact input', () => {
+      it('single hop', () => {
+        const trade = Trade.exactIn(new Route([pool_0_1], token0), new TokenAmount(token0, 100))
+        const { calldata, value } = SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline })
+
+        const calls = decode(calldata)
+        expect(calls.map(([name]) => name)).toEqual(['exactInputSingle'])
+        const [[, { params }]] = calls
+        expect(params.tokenIn).toEqual(token0.address)
+        expect(params.tokenOut).toEqual(token1.address)
+        expect(params.fee).toEqual(FeeAmount.MEDIUM)
+        expect(params.recipient).toEqual(recipient)
+        expect(params.deadline.toString()).toEqual('123')
+        expect(params.amountIn.toString()).toEqual('100')
+        expect(params.amountOutMinimum.toString()).toEqual(trade.minimumAmountOut(slippageTolerance).raw.toString())
+        expect(params.sqrtPriceLimitX96.toString()).toEqual('0')
+        expect(value).toEqual('0x00')
+      })
+
+      it('single hop with a price limit', () => {
+        const trade = Trade.exactIn(new Route([pool_0_1], token0), new TokenAmount(token0, 100))
+        const { calldata } = SwapRouter.swapCallParameters(trade, {
+          slippageTolerance,
+          recipient,
+          deadline,
+          sqrtPriceLimitX96: 2
+        })
+
+        const [[, { params }]] = decode(calldata)
+        expect(params.sqrtPriceLimitX96.toString()).toEqual('2')
+      })
+
+      it('multi hop', () => {
+        const trade = Trade.exactIn(new Route([pool_weth_0, pool_0_1], weth, token1), new TokenAmount(weth, 100))
+        const { calldata, value } = SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline })
+
+        const calls = decode(calldata)
+        expect(calls.map(([name]) => name)).toEqual(['exactInput'])
+        const [[, { params }]] = calls
+        expect(params.path).toEqual(
+          `0x${weth.address.slice(2)}0001f4${token0.address.slice(2)}000bb8${token1.address.slice(2)}`.toLowerCase()
+        )
+        expect(params.recipient).toEqual(recipient)
+        expect(params.amountIn.toString()).toEqual('100')
+        expect(value).toEqual('0x00')
+      })
+
+      it('throws for a price limit on a multi hop trade', () => {
+        const trade = Trade.exactIn(new Route([pool_weth_0, pool_0_1], weth, token1), new TokenAmount(weth, 100))
+        expect(() =>
+          SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline, sqrtPriceLimitX96: 2 })
+        ).toThrow('MULTIHOP_PRICE_LIMIT')
+      })
+
+      it('ether in', () => {
+        const trade = Trade.exactIn(new Route([pool_weth_0, pool_0_1], ETHER, token1), CurrencyAmount.ether(100))
+        const { calldata, value } = SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline })
+
+        expect(decode(calldata).map(([name]) => name)).toEqual(['exactInput'])
+        expect(value).toEqual('0x64')
+      })
+
+      it('permits the input token', () => {
+        const trade = Trade.exactIn(new Route([pool_0_1], token0), new TokenAmount(token0, 100))
+        const { calldata } = SwapRouter.swapCallParameters(trade, {
+          slippageTolerance,
+          recipient,
+          deadline,
+          inputTokenPermit: { v: 0, r: `0x${'1'.repeat(64)}`, s: `0x${'2'.repeat(64)}`, amount: 100, deadline }
+        })
+
+        const calls = decode(calldata)
+        expect(calls.map(([name]) => name)).toEqual(['selfPermit', 'exactInputSingle'])
+        const [[, permitArgs]] = calls
+        expect(permitArgs.token).toEqual(token0.address)
+        expect(permitArgs.value.toString()).toEqual('100')
+      })
+
+      it('throws for a permit with ether in', () => {
+        const trade = Trade.exactIn(new Route([pool_weth_0], ETHER), CurrencyAmount.ether(100))
+        expect(() =>
+          SwapRouter.swapCallParameters(trade, {
+            slippageTolerance,
+            recipient,
+            deadline,
+            inputTokenPermit: { v: 0, r: `0x${'1'.repeat(64)}`, s: `0x${'2'.repeat(64)}`, nonce: 0, expiry: deadline }
+          })
+        ).toThrow('NON_TOKEN_PERMIT')
+      })
+
+      it('ether out', () => {
+        const trade = Trade.exactIn(new Route([pool_weth_0], token0, ETHER), new TokenAmount(token0, 100))
+        const { calldata, value } = SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline })
+
+        const calls = decode(calldata)
+        expect(calls.map(([name]) => name)).toEqual(['exactInputSingle', 'unwrapWETH9'])
+        const [[, { params }], [, unwrapArgs]] = calls
+        expect(params.recipient).toEqual('0x0000000000000000000000000000000000000000')
+        expect(unwrapArgs.amountMinimum.toString()).toEqual(params.amountOutMinimum.toString())
+        expect(unwrapArgs.recipient).toEqual(recipient)
+        expect(value).toEqual('0x00')
+      })
+    })
+
+    describe('exact output', () => {
+      it('single hop', () => {
+        const trade = Trade.exactOut(new Route([pool_0_1], token0), new TokenAmount(token1, 100))
+        const { calldata, value } = SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline })
+
+        const calls = decode(calldata)
+        expect(calls.map(([name]) => name)).toEqual(['exactOutputSingle'])
+        const [[, { params }]] = calls
+        expect(params.tokenIn).toEqual(token0.address)
+        expect(params.tokenOut).toEqual(token1.address)
+        expect(params.amountOut.toString()).toEqual('100')
+        expect(params.amountInMaximum.toString()).toEqual(trade.maximumAmountIn(slippageTolerance).raw.toString())
+        expect(value).toEqual('0x00')
+      })
+
+      it('multi hop encodes the path from the output', () => {
+        const trade = Trade.exactOut(new Route([pool_weth_0, pool_0_1], weth, token1), new TokenAmount(token1, 100))
+        const { calldata } = SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline })
+
+        const calls = decode(calldata)
+        expect(calls.map(([name]) => name)).toEqual(['exactOutput'])
+        const [[, { params }]] = calls
+        expect(params.path).toEqual(
+          `0x${token1.address.slice(2)}000bb8${token0.address.slice(2)}0001f4${weth.address.slice(2)}`.toLowerCase()
+        )
+        expect(params.amountOut.toString()).toEqual('100')
+      })
+
+      it('ether in refunds the unspent ether', () => {
+        const trade = Trade.exactOut(new Route([pool_weth_0], ETHER, token0), new TokenAmount(token0, 100))
+        const { calldata, value } = SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline })
+
+        const calls = decode(calldata)
+        expect(calls.map(([name]) => name)).toEqual(['exactOutputSingle', 'refundETH'])
+        const [[, { params }]] = calls
+        expect(value).toEqual(toHex(params.amountInMaximum.toString()))
+      })
+
+      it('ether out', () => {
+        const trade = Trade.exactOut(new Route([pool_weth_0], token0, ETHER), CurrencyAmount.ether(100))
+        const { calldata, value } = SwapRouter.swapCallParameters(trade, { slippageTolerance, recipient, deadline })
+
+        const calls = decode(calldata)
+        expect(calls.map(([name]) => name)).toEqual(['exactOutputSingle', 'unwrapWETH9'])
+        const [, [, unwrapArgs]] = calls
+        expect(unwrapArgs.amountMinimum.toString()).toEqual('100')
+        expect(unwrapArgs.recipient).toEqual(recipient)
+        expect(value).toEqual('0x00')
+      })
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import { Interface } from '@ethersproject/abi'
+import { BigintIsh, ETHER, Percent, TradeType, validateAndParseAddress } from '@uniswap/sdk-core'
+import invariant from 'tiny-invariant'
+import { ZERO } from './constants'
+import { Trade } from './entities/trade'
+import { Multicall } from './multicall'
+import { PermitOptions, SelfPermit } from './selfPermit'
+import { encodeRouteToPath, MethodParameters, toHex } from './utils'
+
+const ABI = [
+  'function exactInputSingle(tuple(address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+  'function exactInput(tuple(bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)',
+  'function exactOutputSingle(tuple(address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountIn)',
+  'function exactOutput(tuple(bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params) payable returns (uint256 amountIn)',
+  'function unwrapWETH9(uint256 amountMinimum, address recipient) payable',
+  'function refundETH() payable'
+]
+
+// the router keeps the output of a swap when the recipient is the zero address, so that it can be unwrapped
+const ADDRESS_ZERO = '0x0000000000000000000000000000000000000000'
+
+/**
+ * Options for producing the calldata to execute a trade.
+ */
+export interface SwapOptions {
+  /**
+   * How much the execution price is allowed to move unfavorably from the trade execution price.
+   */
+  slippageTolerance: Percent
+
+  /**
+   * The account that should receive the output of the swap.
+   */
+  recipient: string
+
+  /**
+   * When the transaction expires, in epoch seconds.
+   */
+  deadline: BigintIsh
+
+  /**
+   * The Q64.96 sqrt price at which the swap stops, only allowed for trades through a single pool.
+   */
+  sqrtPriceLimitX96?: BigintIsh
+
+  /**
+   * The optional permit signature for spending the input token, which cannot be used for ether input.
+   */
+  inputTokenPermit?: PermitOptions
+}
+
+/**
+ * Represents the Uniswap V3 SwapRouter, and has static methods for producing the calldata to execute trades.
+ */
+export abstract class SwapRouter {
+  public static INTERFACE: Interface = new Interface(ABI)
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Produces the calldata and value to execute the given trade against the router.
+   * @param trade to produce call parameters for
+   * @param options options for the call parameters
+   */
+  public static swapCallParameters(trade: Trade, options: SwapOptions): MethodParameters {
+    const etherIn = trade.inputAmount.currency === ETHER
+    const etherOut = trade.outputAmount.currency === ETHER
+    // the router does not support both ether in and out
+    invariant(!(etherIn && etherOut), 'ETHER_IN_OUT')
+
+    const singleHop = trade.route.pools.length === 1
+    invariant(singleHop || options.sqrtPriceLimitX96 === undefined, 'MULTIHOP_PRICE_LIMIT')
+
+    const recipient = validateAndParseAddress(options.recipient)
+    const amountIn = toHex(trade.maximumAmountIn(options.slippageTolerance).raw)
+    const amountOut = toHex(trade.minimumAmountOut(options.slippageTolerance).raw)
+    const deadline = toHex(options.deadline)
+    const sqrtPriceLimitX96 = toHex(options.sqrtPriceLimitX96 ?? ZERO)
+    // the router must hold the output to unwrap it before sending it on to the recipient
+    const swapRecipient = etherOut ? ADDRESS_ZERO : recipient
+
+    const calldatas: string[] = []
+
+    if (options.inputTokenPermit) {
+      invariant(!etherIn, 'NON_TOKEN_PERMIT')
+      calldatas.push(SelfPermit.encodePermit(trade.route.tokenPath[0], options.inputTokenPermit))
+    }
+
+    if (trade.tradeType === TradeType.EXACT_INPUT) {
+      if (singleHop) {
+        calldatas.push(
+          SwapRouter.INTERFACE.encodeFunctionData('exactInputSingle', [
+            {
+              tokenIn: trade.route.tokenPath[0].address,
+              tokenOut: trade.route.tokenPath[1].address,
+              fee: trade.route.pools[0].feeLevel,
+              recipient: swapRecipient,
+              deadline,
+              amountIn,
+              amountOutMinimum: amountOut,
+              sqrtPriceLimitX96
+            }
+          ])
+        )
+      } else {
+        calldatas.push(
+          SwapRouter.INTERFACE.encodeFunctionData('exactInput', [
+            {
+              path: encodeRouteToPath(trade.route, false),
+              recipient: swapRecipient,
+              deadline,
+              amountIn,
+              amountOutMinimum: amountOut
+            }
+          ])
+        )
+      }
+    } else {
+      if (singleHop) {
+        calldatas.push(
+          SwapRouter.INTERFACE.encodeFunctionData('exactOutputSingle', [
+            {
+              tokenIn: trade.route.tokenPath[0].address,
+              tokenOut: trade.route.tokenPath[1].address,
+              fee: trade.route.pools[0].feeLevel,
+              recipient: swapRecipient,
+              deadline,
+              amountOut,
+              amountInMaximum: amountIn,
+              sqrtPriceLimitX96
+            }
+          ])
+        )
+      } else {
+        calldatas.push(
+          SwapRouter.INTERFACE.encodeFunctionData('exactOutput', [
+            {
+              path: encodeRouteToPath(trade.route, true),
+              recipient: swapRecipient,
+              deadline,
+              amountOut,
+              amountInMaximum: amountIn
+            }
+          ])
+        )
+      }
+
+      // any ether that is not spent by an exact output swap must be refunded
+      if (etherIn) {
+        calldatas.push(SwapRouter.INTERFACE.encodeFunctionData('refundETH'))
+      }
+    }
+
+    if (etherOut) {
+      calldatas.push(SwapRouter.INTERFACE.encodeFunctionData('unwrapWETH9', [amountOut, recipient]))
+    }
+
+    return {
+      calldata: Multicall.encodeMulticall(calldatas),
+      value: etherIn ? amountIn : toHex(ZERO)
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { Interface, Result } from '@ethersproject/abi'
+import { BigintIsh, Token } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { FeeAmount, NEGATIVE_ONE, Q96 } from './constants'
+import { Pool } from './entities/pool'
+import { Tick } from './entities/tick'
+import { TickList } from './entities/tickList'
+import { Multicall } from './multicall'
+import { SelfPermit } from './selfPermit'
+import { maxUsableTick, minUsableTick } from './utils'
+
+/**
+ * Returns the ticks of a single full range position with the given liquidity, for use in tests
+ * @param fee the fee level whose tick spacing the ticks must be a multiple of
+ * @param liquidity the liquidity of the position
+ */
+export function makeFullRangeTickList(fee: FeeAmount, liquidity: BigintIsh): TickList {
+  const liquidityNet = JSBI.BigInt(liquidity)
+  return new TickList({
+    ticks: [
+      new Tick({
+        feeGrowthOutside0X128: 0,
+        feeGrowthOutside1X128: 0,
+        index: minUsableTick(fee),
+        liquidityNet,
+        liquidityGross: liquidityNet
+      }),
+      new Tick({
+        feeGrowthOutside0X128: 0,
+        feeGrowthOutside1X128: 0,
+        index: maxUsableTick(fee),
+        liquidityNet: JSBI.multiply(liquidityNet, NEGATIVE_ONE),
+        liquidityGross: liquidityNet
+      })
+    ]
+  })
+}
+
+/**
+ * Returns a pool with a single full range position with the given liquidity, for use in tests
+ * @param tokenA one of the tokens in the pool
+ * @param tokenB the other token in the pool
+ * @param fee the fee level of the pool
+ * @param liquidity the liquidity of the position
+ * @param sqrtPriceX96 the current sqrt price of the pool, a price of 1 by default
+ */
+export function makeFullRangePool(
+  tokenA: Token,
+  tokenB: Token,
+  fee: FeeAmount,
+  liquidity: BigintIsh = JSBI.BigInt('1000000000000000000'),
+  sqrtPriceX96: BigintIsh = Q96
+): Pool {
+  return new Pool(tokenA, tokenB, fee, sqrtPriceX96, liquidity, makeFullRangeTickList(fee, liquidity))
+}
+
+/**
+ * Decodes the calls in the calldata of a contract, which may be batched through multicall and include permits, into
+ * the name and arguments of each call, for use in tests
+ * @param contractInterface the interface of the contract that is called
+ * @param calldata the calldata sent to the contract
+ */
+export function decodeCalls(contractInterface: Interface, calldata: string): [string, Result][] {
+  const calldataInterface = new Interface([
+    ...contractInterface.fragments,
+    ...Multicall.INTERFACE.fragments,
+    ...SelfPermit.INTERFACE.fragments
+  ])
+  const { name, args } = calldataInterface.parseTransaction({ data: calldata })
+  if (name !== 'multicall') return [[name, args]]
+  return args.data.map((data: string) => {
+    const call = calldataInterface.parseTransaction({ data })
+    return [call.name, call.args]
+  })
+}
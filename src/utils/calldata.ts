@@ -0,0 +1,25 @@
+import { BigintIsh } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+
+/**
+ * The calldata and value of a call to a Uniswap V3 periphery contract.
+ */
+export interface MethodParameters {
+  /**
+   * The hex encoded calldata to send to the contract.
+   */
+  calldata: string
+  /**
+   * The amount of wei to send in hex.
+   */
+  value: string
+}
+
+/**
+ * Returns the big int as a 0x prefixed, even length hex string
+ * @param bigintIsh the value to convert
+ */
+export function toHex(bigintIsh: BigintIsh): string {
+  const hex = JSBI.BigInt(bigintIsh).toString(16)
+  return `0x${hex.length % 2 === 0 ? hex : `0${hex}`}`
+}
@@ -0,0 +1,65 @@
+import { MaxUint256 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { ONE, ZERO } from '../constants'
+import FullMath from './fullMath'
+
+const Q128 = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(128))
+
+describe('FullMath', () => {
+  describe('#mulDiv', () => {
+    it('throws if denominator is 0', () => {
+      expect(() => FullMath.mulDiv(Q128, JSBI.BigInt(5), ZERO)).toThrow('DENOMINATOR')
+    })
+
+    it('throws if the result overflows uint256', () => {
+      expect(() => FullMath.mulDiv(Q128, Q128, ONE)).toThrow('UINT256')
+    })
+
+    it('all max inputs', () => {
+      expect(FullMath.mulDiv(MaxUint256, MaxUint256, MaxUint256)).toEqual(MaxUint256)
+    })
+
+    it('accurate without phantom overflow', () => {
+      const result = JSBI.divide(Q128, JSBI.BigInt(3))
+      expect(
+        FullMath.mulDiv(
+          Q128,
+          JSBI.divide(JSBI.multiply(JSBI.BigInt(50), Q128), JSBI.BigInt(100)),
+          JSBI.divide(JSBI.multiply(JSBI.BigInt(150), Q128), JSBI.BigInt(100))
+        )
+      ).toEqual(result)
+    })
+
+    it('rounds down', () => {
+      expect(FullMath.mulDiv(JSBI.BigInt(3), JSBI.BigInt(5), JSBI.BigInt(2))).toEqual(JSBI.BigInt(7))
+    })
+  })
+
+  describe('#mulDivRoundingUp', () => {
+    it('throws if denominator is 0', () => {
+      expect(() => FullMath.mulDivRoundingUp(Q128, JSBI.BigInt(5), ZERO)).toThrow('DENOMINATOR')
+    })
+
+    it('throws if rounding up overflows uint256', () => {
+      expect(() =>
+        FullMath.mulDivRoundingUp(
+          JSBI.BigInt('535006138814359'),
+          JSBI.BigInt('432862656469423142931042426214547535783388063929571229938474969'),
+          JSBI.BigInt(2)
+        )
+      ).toThrow('UINT256')
+    })
+
+    it('all max inputs', () => {
+      expect(FullMath.mulDivRoundingUp(MaxUint256, MaxUint256, MaxUint256)).toEqual(MaxUint256)
+    })
+
+    it('rounds up', () => {
+      expect(FullMath.mulDivRoundingUp(JSBI.BigInt(3), JSBI.BigInt(5), JSBI.BigInt(2))).toEqual(JSBI.BigInt(8))
+    })
+
+    it('does not round up exact results', () => {
+      expect(FullMath.mulDivRoundingUp(JSBI.BigInt(4), JSBI.BigInt(5), JSBI.BigInt(2))).toEqual(JSBI.BigInt(10))
+    })
+  })
+})
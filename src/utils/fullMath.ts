@@ -0,0 +1,41 @@
+import { MaxUint256 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { ONE, ZERO } from '../constants'
+
+export default abstract class FullMath {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Calculates floor(a×b÷denominator) with full precision. Throws if the result overflows a uint256 or the denominator
+   * is zero, as the contract would revert.
+   * @param a the multiplicand
+   * @param b the multiplier
+   * @param denominator the divisor
+   */
+  public static mulDiv(a: JSBI, b: JSBI, denominator: JSBI): JSBI {
+    invariant(JSBI.greaterThan(denominator, ZERO), 'DENOMINATOR')
+    const result = JSBI.divide(JSBI.multiply(a, b), denominator)
+    invariant(JSBI.lessThanOrEqual(result, MaxUint256), 'UINT256')
+    return result
+  }
+
+  /**
+   * Calculates ceil(a×b÷denominator) with full precision. Throws if the result overflows a uint256 or the denominator
+   * is zero, as the contract would revert.
+   * @param a the multiplicand
+   * @param b the multiplier
+   * @param denominator the divisor
+   */
+  public static mulDivRoundingUp(a: JSBI, b: JSBI, denominator: JSBI): JSBI {
+    invariant(JSBI.greaterThan(denominator, ZERO), 'DENOMINATOR')
+    const product = JSBI.multiply(a, b)
+    let result = JSBI.divide(product, denominator)
+    if (JSBI.notEqual(JSBI.remainder(product, denominator), ZERO)) result = JSBI.add(result, ONE)
+    invariant(JSBI.lessThanOrEqual(result, MaxUint256), 'UINT256')
+    return result
+  }
+}
@@ -1,6 +1,30 @@
+import FullMath from './fullMath'
 import mostSignificantBit from './mostSignificantBit'
+import OracleLibrary from './oracleLibrary'
+import PositionLibrary from './positionLibrary'
+import sqrt from './sqrt'
+import SqrtPriceMath from './sqrtPriceMath'
+import SwapMath from './swapMath'
+import TickLibrary from './tickLibrary'
 import TickMath from './tickMath'
+import UnsafeMath from './unsafeMath'
 
+export * from './calldata'
+export * from './maxLiquidityForAmounts'
+export * from './oracleLibrary'
+export * from './path'
 export * from './priceTickConversions'
+export * from './usableTicks'
 
-export { mostSignificantBit, TickMath }
+export {
+  FullMath,
+  mostSignificantBit,
+  OracleLibrary,
+  PositionLibrary,
+  sqrt,
+  SqrtPriceMath,
+  SwapMath,
+  TickLibrary,
+  TickMath,
+  UnsafeMath
+}
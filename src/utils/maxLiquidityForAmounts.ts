@@ -0,0 +1,70 @@
+import { BigintIsh } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { MaxUint128, Q96 } from '../constants'
+import FullMath from './fullMath'
+
+function toUint128(x: JSBI): JSBI {
+  invariant(JSBI.lessThanOrEqual(x, MaxUint128), 'UINT128')
+  return x
+}
+
+/**
+ * Returns the amount of liquidity received for a given amount of token0 and price range, matching
+ * LiquidityAmounts#getLiquidityForAmount0 in the periphery contracts
+ * @param sqrtRatioAX96 a sqrt price representing the first tick boundary
+ * @param sqrtRatioBX96 a sqrt price representing the second tick boundary
+ * @param amount0 the amount of token0 being sent in
+ */
+export function maxLiquidityForAmount0(sqrtRatioAX96: JSBI, sqrtRatioBX96: JSBI, amount0: BigintIsh): JSBI {
+  if (JSBI.greaterThan(sqrtRatioAX96, sqrtRatioBX96)) {
+    ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+  }
+  const intermediate = FullMath.mulDiv(sqrtRatioAX96, sqrtRatioBX96, Q96)
+  return toUint128(FullMath.mulDiv(JSBI.BigInt(amount0), intermediate, JSBI.subtract(sqrtRatioBX96, sqrtRatioAX96)))
+}
+
+/**
+ * Returns the amount of liquidity received for a given amount of token1 and price range, matching
+ * LiquidityAmounts#getLiquidityForAmount1 in the periphery contracts
+ * @param sqrtRatioAX96 a sqrt price representing the first tick boundary
+ * @param sqrtRatioBX96 a sqrt price representing the second tick boundary
+ * @param amount1 the amount of token1 being sent in
+ */
+export function maxLiquidityForAmount1(sqrtRatioAX96: JSBI, sqrtRatioBX96: JSBI, amount1: BigintIsh): JSBI {
+  if (JSBI.greaterThan(sqrtRatioAX96, sqrtRatioBX96)) {
+    ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+  }
+  return toUint128(FullMath.mulDiv(JSBI.BigInt(amount1), Q96, JSBI.subtract(sqrtRatioBX96, sqrtRatioAX96)))
+}
+
+/**
+ * Computes the maximum amount of liquidity received for a given amount of token0, token1, the current pool price and
+ * the prices at the tick boundaries, matching LiquidityAmounts#getLiquidityForAmounts in the periphery contracts
+ * @param sqrtRatioCurrentX96 the current price
+ * @param sqrtRatioAX96 price at lower boundary
+ * @param sqrtRatioBX96 price at upper boundary
+ * @param amount0 token0 amount
+ * @param amount1 token1 amount
+ */
+export function maxLiquidityForAmounts(
+  sqrtRatioCurrentX96: JSBI,
+  sqrtRatioAX96: JSBI,
+  sqrtRatioBX96: JSBI,
+  amount0: BigintIsh,
+  amount1: BigintIsh
+): JSBI {
+  if (JSBI.greaterThan(sqrtRatioAX96, sqrtRatioBX96)) {
+    ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+  }
+
+  if (JSBI.lessThanOrEqual(sqrtRatioCurrentX96, sqrtRatioAX96)) {
+    return maxLiquidityForAmount0(sqrtRatioAX96, sqrtRatioBX96, amount0)
+  } else if (JSBI.lessThan(sqrtRatioCurrentX96, sqrtRatioBX96)) {
+    const liquidity0 = maxLiquidityForAmount0(sqrtRatioCurrentX96, sqrtRatioBX96, amount0)
+    const liquidity1 = maxLiquidityForAmount1(sqrtRatioAX96, sqrtRatioCurrentX96, amount1)
+    return JSBI.lessThan(liquidity0, liquidity1) ? liquidity0 : liquidity1
+  } else {
+    return maxLiquidityForAmount1(sqrtRatioAX96, sqrtRatioBX96, amount1)
+  }
+}
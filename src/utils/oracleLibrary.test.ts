@@ -0,0 +1,182 @@
+import { ChainId, ETHER, Token, WETH9 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { FeeAmount, Q128, Q96 } from '../constants'
+import { Observation } from '../entities/observation'
+import { Oracle } from '../entities/oracle'
+import { Pool } from '../entities/pool'
+import { Route } from '../entities/route'
+import { Tick } from '../entities/tick'
+import { TickList } from '../entities/tickList'
+import OracleLibrary from './oracleLibrary'
+import { tickToPrice } from './priceTickConversions'
+
+describe('OracleLibrary', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const token2 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000003', 18, 't2')
+  const weth = WETH9[ChainId.MAINNET]
+  const ticks = new TickList({
+    ticks: [
+      new Tick({ feeGrowthOutside0X128: 0, feeGrowthOutside1X128: 0, index: 0, liquidityNet: 0, liquidityGross: 0 })
+    ]
+  })
+
+  // a pool whose mean tick and liquidity over the 10 seconds before the current time of 10 are the given values
+  function makePool(tokenA: Token, tokenB: Token, fee: FeeAmount, tick: number, liquidity: number) {
+    return new Pool(
+      tokenA,
+      tokenB,
+      fee,
+      Q96,
+      0,
+      ticks,
+      0,
+      new Oracle({
+        observations: [
+          new Observation({
+            blockTimestamp: 0,
+            tickCumulative: 0,
+            secondsPerLiquidityCumulativeX128: 0,
+            initialized: true
+          }),
+          new Observation({
+            blockTimestamp: 10,
+            tickCumulative: tick * 10,
+            secondsPerLiquidityCumulativeX128: JSBI.divide(
+              JSBI.multiply(JSBI.BigInt(10), Q128),
+              JSBI.BigInt(liquidity)
+            ),
+            initialized: true
+          })
+        ],
+        index: 1
+      })
+    )
+  }
+
+  const pool_0_1_medium = makePool(token0, token1, FeeAmount.MEDIUM, 100, 1000)
+  const pool_0_1_low = makePool(token0, token1, FeeAmount.LOW, 200, 3000)
+  const pool_1_2 = makePool(token1, token2, FeeAmount.MEDIUM, 200, 1000)
+  const pool_weth_2 = makePool(weth, token2, FeeAmount.MEDIUM, -50, 1000)
+
+  describe('#consult', () => {
+    it('returns the arithmetic mean tick and harmonic mean liquidity', () => {
+      const { arithmeticMeanTick, harmonicMeanLiquidity } = OracleLibrary.consult(pool_0_1_low, 10, 10)
+      expect(arithmeticMeanTick).toEqual(200)
+      expect(harmonicMeanLiquidity).toEqual(JSBI.BigInt(3000))
+    })
+
+    it('rounds the mean tick towards negative infinity', () => {
+      // the tick is -1 until the time of 10, and 0 since
+      const pool = makePool(token0, token1, FeeAmount.MEDIUM, -1, 1000)
+      expect(OracleLibrary.consult(pool, 12, 4).arithmeticMeanTick).toEqual(-1)
+      expect(
+        OracleLibrary.consult(makePool(token0, token1, FeeAmount.MEDIUM, 1, 1000), 12, 4).arithmeticMeanTick
+      ).toEqual(0)
+    })
+
+    it('throws for an empty window', () => {
+      expect(() => OracleLibrary.consult(pool_0_1_low, 10, 0)).toThrow('SECONDS_AGO')
+    })
+  })
+
+  describe('#getWeightedArithmeticMeanTick', () => {
+    it('weights each tick', () => {
+      expect(
+        OracleLibrary.getWeightedArithmeticMeanTick([
+          { tick: 100, weight: JSBI.BigInt(1000) },
+          { tick: 200, weight: JSBI.BigInt(3000) }
+        ])
+      ).toEqual(175)
+    })
+
+    it('rounds towards negative infinity', () => {
+      expect(
+        OracleLibrary.getWeightedArithmeticMeanTick([
+          { tick: -1, weight: JSBI.BigInt(1) },
+          { tick: -2, weight: JSBI.BigInt(1) }
+        ])
+      ).toEqual(-2)
+      expect(
+        OracleLibrary.getWeightedArithmeticMeanTick([
+          { tick: 1, weight: JSBI.BigInt(1) },
+          { tick: 2, weight: JSBI.BigInt(1) }
+        ])
+      ).toEqual(1)
+    })
+
+    it('throws without weight', () => {
+      expect(() => OracleLibrary.getWeightedArithmeticMeanTick([])).toThrow('WEIGHT')
+    })
+  })
+
+  describe('#getChainedPrice', () => {
+    it('adds the ticks in the direction of the path', () => {
+      expect(OracleLibrary.getChainedPrice([token0, token1, token2], [100, 200])).toEqual(300)
+      expect(OracleLibrary.getChainedPrice([token2, token1, token0], [200, 100])).toEqual(-300)
+      expect(OracleLibrary.getChainedPrice([token0, token2, token1], [100, 200])).toEqual(-100)
+    })
+
+    it('throws if the lengths do not match', () => {
+      expect(() => OracleLibrary.getChainedPrice([token0, token1], [])).toThrow('LENGTH')
+    })
+  })
+
+  describe('#getLiquidityWeightedAveragePrice', () => {
+    it('weights the pools by their harmonic mean liquidity', () => {
+      expect(OracleLibrary.getLiquidityWeightedAveragePrice([pool_0_1_medium, pool_0_1_low], token0, 10, 10)).toEqual(
+        tickToPrice(token0, token1, 175)
+      )
+      expect(OracleLibrary.getLiquidityWeightedAveragePrice([pool_0_1_medium, pool_0_1_low], token1, 10, 10)).toEqual(
+        tickToPrice(token1, token0, 175)
+      )
+    })
+
+    it('throws for pools of different pairs', () => {
+      expect(() => OracleLibrary.getLiquidityWeightedAveragePrice([pool_0_1_medium, pool_1_2], token1, 10, 10)).toThrow(
+        'PAIR'
+      )
+    })
+
+    it('throws for a token not in the pools', () => {
+      expect(() => OracleLibrary.getLiquidityWeightedAveragePrice([pool_0_1_medium], token2, 10, 10)).toThrow('TOKEN')
+    })
+  })
+
+  describe('#getRouteTimeWeightedAveragePrice', () => {
+    it('chains the prices along the route', () => {
+      const price = OracleLibrary.getRouteTimeWeightedAveragePrice(
+        new Route([pool_0_1_medium, pool_1_2], token0),
+        10,
+        10
+      )
+      expect(price.baseCurrency).toEqual(token0)
+      expect(price.quoteCurrency).toEqual(token2)
+      expect(price.toSignificant(6)).toEqual(tickToPrice(token0, token2, 300).toSignificant(6))
+    })
+
+    it('is the inverse for the reverse route', () => {
+      const forward = OracleLibrary.getRouteTimeWeightedAveragePrice(
+        new Route([pool_0_1_medium, pool_1_2], token0),
+        10,
+        10
+      )
+      const reverse = OracleLibrary.getRouteTimeWeightedAveragePrice(
+        new Route([pool_1_2, pool_0_1_medium], token2),
+        10,
+        10
+      )
+      expect(reverse.toSignificant(6)).toEqual(forward.invert().toSignificant(6))
+    })
+
+    it('supports ether', () => {
+      const price = OracleLibrary.getRouteTimeWeightedAveragePrice(
+        new Route([pool_1_2, pool_weth_2], token1, ETHER),
+        10,
+        10
+      )
+      expect(price.quoteCurrency).toEqual(ETHER)
+      expect(price.toSignificant(6)).toEqual(tickToPrice(token1, weth, 200 - 50).toSignificant(6))
+    })
+  })
+})
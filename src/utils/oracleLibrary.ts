@@ -0,0 +1,149 @@
+import { Price, Token } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { MaxUint128, MaxUint160, Q160, ZERO } from '../constants'
+import { Pool } from '../entities/pool'
+import { Route } from '../entities/route'
+import { tickToPrice } from './priceTickConversions'
+
+/**
+ * A tick along with the weight it is given in a weighted arithmetic mean, e.g. the harmonic mean liquidity of the pool
+ * over the same window.
+ */
+export interface WeightedTickData {
+  tick: number
+  weight: JSBI
+}
+
+/**
+ * Returns the quotient of the division rounded towards negative infinity, like the periphery OracleLibrary does for
+ * mean ticks
+ */
+function divideRoundingDown(numerator: JSBI, denominator: JSBI): number {
+  const quotient = JSBI.toNumber(JSBI.divide(numerator, denominator))
+  return JSBI.lessThan(numerator, ZERO) && JSBI.notEqual(JSBI.remainder(numerator, denominator), ZERO)
+    ? quotient - 1
+    : quotient
+}
+
+export default abstract class OracleLibrary {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Returns the arithmetic mean tick and the harmonic mean liquidity of the pool over the last `secondsAgo` seconds,
+   * matching OracleLibrary#consult in the periphery contracts
+   * @param pool the pool, which must have an oracle
+   * @param time the current block timestamp
+   * @param secondsAgo the length of the window that ends at the current time
+   */
+  public static consult(
+    pool: Pool,
+    time: number,
+    secondsAgo: number
+  ): { arithmeticMeanTick: number; harmonicMeanLiquidity: JSBI } {
+    invariant(Number.isInteger(secondsAgo) && secondsAgo > 0, 'SECONDS_AGO')
+    const {
+      tickCumulatives: [tickCumulativeStart, tickCumulativeEnd],
+      secondsPerLiquidityCumulativeX128s: [secondsPerLiquidityStartX128, secondsPerLiquidityEndX128]
+    } = pool.observe(time, [secondsAgo, 0])
+
+    const window = JSBI.BigInt(secondsAgo)
+    const arithmeticMeanTick = divideRoundingDown(JSBI.subtract(tickCumulativeEnd, tickCumulativeStart), window)
+
+    // the uint160 accumulator may have overflowed during the window
+    let secondsPerLiquidityDeltaX128 = JSBI.subtract(secondsPerLiquidityEndX128, secondsPerLiquidityStartX128)
+    if (JSBI.lessThan(secondsPerLiquidityDeltaX128, ZERO)) {
+      secondsPerLiquidityDeltaX128 = JSBI.add(secondsPerLiquidityDeltaX128, Q160)
+    }
+    // the window divided by the seconds per liquidity, scaled so that the X128 accumulator fits the division
+    const harmonicMeanLiquidity = JSBI.bitwiseAnd(
+      JSBI.divide(JSBI.multiply(window, MaxUint160), JSBI.leftShift(secondsPerLiquidityDeltaX128, JSBI.BigInt(32))),
+      MaxUint128
+    )
+
+    return { arithmeticMeanTick, harmonicMeanLiquidity }
+  }
+
+  /**
+   * Returns the weighted arithmetic mean of the ticks, rounded towards negative infinity
+   * @param weightedTickData the ticks and their weights
+   */
+  public static getWeightedArithmeticMeanTick(weightedTickData: WeightedTickData[]): number {
+    const numerator = weightedTickData.reduce(
+      (accumulator, { tick, weight }) => JSBI.add(accumulator, JSBI.multiply(JSBI.BigInt(tick), weight)),
+      ZERO
+    )
+    const denominator = weightedTickData.reduce((accumulator, { weight }) => JSBI.add(accumulator, weight), ZERO)
+    invariant(JSBI.greaterThan(denominator, ZERO), 'WEIGHT')
+    return divideRoundingDown(numerator, denominator)
+  }
+
+  /**
+   * Returns the synthetic tick of the price of the first token in terms of the last token, given the tick of each
+   * pair of adjacent tokens
+   * @param tokens the path of tokens
+   * @param ticks the tick of the pool of each pair of adjacent tokens
+   */
+  public static getChainedPrice(tokens: Token[], ticks: number[]): number {
+    invariant(tokens.length - 1 === ticks.length, 'LENGTH')
+    let syntheticTick = 0
+    for (let i = 1; i < tokens.length; i++) {
+      // the tick is the price of token0 in terms of token1, so it is inverted for the other direction
+      syntheticTick += tokens[i - 1].sortsBefore(tokens[i]) ? ticks[i - 1] : -ticks[i - 1]
+    }
+    return syntheticTick
+  }
+
+  /**
+   * Returns the average of the time weighted average prices of several pools of the same pair over the last
+   * `secondsAgo` seconds, weighted by the harmonic mean liquidity of each pool over the same window
+   * @param pools the pools of the pair, e.g. the pools of every fee level, which must have an oracle
+   * @param baseToken the token to return the price of
+   * @param time the current block timestamp
+   * @param secondsAgo the length of the window that ends at the current time
+   */
+  public static getLiquidityWeightedAveragePrice(
+    pools: Pool[],
+    baseToken: Token,
+    time: number,
+    secondsAgo: number
+  ): Price {
+    invariant(pools.length > 0, 'POOLS')
+    const [{ token0, token1 }] = pools
+    invariant(
+      pools.every(pool => pool.token0.equals(token0) && pool.token1.equals(token1)),
+      'PAIR'
+    )
+    invariant(pools[0].involvesToken(baseToken), 'TOKEN')
+
+    const weightedTick = OracleLibrary.getWeightedArithmeticMeanTick(
+      pools.map(pool => {
+        const { arithmeticMeanTick, harmonicMeanLiquidity } = OracleLibrary.consult(pool, time, secondsAgo)
+        return { tick: arithmeticMeanTick, weight: harmonicMeanLiquidity }
+      })
+    )
+    return tickToPrice(baseToken, baseToken.equals(token0) ? token1 : token0, weightedTick)
+  }
+
+  /**
+   * Returns the time weighted average price of the route input in terms of the route output over the last
+   * `secondsAgo` seconds, chaining the time weighted average tick of each pool along the route
+   * @param route the route, whose pools must have an oracle
+   * @param time the current block timestamp
+   * @param secondsAgo the length of the window that ends at the current time
+   */
+  public static getRouteTimeWeightedAveragePrice(route: Route, time: number, secondsAgo: number): Price {
+    const syntheticTick = OracleLibrary.getChainedPrice(
+      route.tokenPath,
+      route.pools.map(pool => OracleLibrary.consult(pool, time, secondsAgo).arithmeticMeanTick)
+    )
+    const input = route.tokenPath[0]
+    const output = route.tokenPath[route.tokenPath.length - 1]
+    // the synthetic tick is the price of the input in terms of the output, regardless of the token order
+    const price = tickToPrice(input, output, input.sortsBefore(output) ? syntheticTick : -syntheticTick)
+    return new Price(route.input, route.output, price.denominator, price.numerator)
+  }
+}
@@ -0,0 +1,83 @@
+import { ChainId, ETHER, Token, WETH9 } from '@uniswap/sdk-core'
+import { FeeAmount, Q96 } from '../constants'
+import { Pool } from '../entities/pool'
+import { Route } from '../entities/route'
+import { Tick } from '../entities/tick'
+import { TickList } from '../entities/tickList'
+import { decodePath, encodeRouteToPath } from './path'
+
+describe('path', () => {
+  const token0 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const token1 = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000002', 18, 't1')
+  const weth = WETH9[ChainId.MAINNET]
+  const ticks = new TickList({
+    ticks: [
+      new Tick({ feeGrowthOutside0X128: 0, feeGrowthOutside1X128: 0, index: 0, liquidityNet: 0, liquidityGross: 0 })
+    ]
+  })
+  const pool_0_1 = new Pool(token0, token1, FeeAmount.MEDIUM, Q96, 0, ticks)
+  const pool_1_weth = new Pool(token1, weth, FeeAmount.LOW, Q96, 0, ticks)
+
+  const path_0_1 = '0x0000000000000000000000000000000000000001000bb80000000000000000000000000000000000000002'
+  const path_0_1_weth = `${path_0_1}0001f4${weth.address.slice(2).toLowerCase()}`
+
+  describe('#encodeRouteToPath', () => {
+    it('encodes a single pool', () => {
+      expect(encodeRouteToPath(new Route([pool_0_1], token0), false)).toEqual(path_0_1)
+    })
+
+    it('encodes in the direction of the route', () => {
+      expect(encodeRouteToPath(new Route([pool_0_1], token1), false)).toEqual(
+        '0x0000000000000000000000000000000000000002000bb80000000000000000000000000000000000000001'
+      )
+    })
+
+    it('encodes multiple pools', () => {
+      expect(encodeRouteToPath(new Route([pool_0_1, pool_1_weth], token0), false)).toEqual(path_0_1_weth)
+    })
+
+    it('encodes from the output for exact output', () => {
+      expect(encodeRouteToPath(new Route([pool_1_weth, pool_0_1], weth), true)).toEqual(path_0_1_weth)
+    })
+
+    it('encodes weth for ether', () => {
+      expect(encodeRouteToPath(new Route([pool_0_1, pool_1_weth], token0, ETHER), false)).toEqual(path_0_1_weth)
+    })
+  })
+
+  describe('#decodePath', () => {
+    it('decodes a single pool', () => {
+      expect(decodePath(path_0_1)).toEqual({ tokens: [token0.address, token1.address], fees: [FeeAmount.MEDIUM] })
+    })
+
+    it('decodes multiple pools', () => {
+      expect(decodePath(path_0_1_weth)).toEqual({
+        tokens: [token0.address, token1.address, weth.address],
+        fees: [FeeAmount.MEDIUM, FeeAmount.LOW]
+      })
+    })
+
+    it('round trips an encoded route', () => {
+      const route = new Route([pool_1_weth, pool_0_1], weth)
+      expect(decodePath(encodeRouteToPath(route, false)).tokens).toEqual(route.tokenPath.map(token => token.address))
+    })
+
+    it('throws for non hex data', () => {
+      expect(() => decodePath(path_0_1.slice(2))).toThrow('HEX')
+      expect(() => decodePath(`${path_0_1.slice(0, -1)}z`)).toThrow('HEX')
+    })
+
+    it('throws for malformed lengths', () => {
+      expect(() => decodePath('0x')).toThrow('PATH_LENGTH')
+      expect(() => decodePath(`0x${token0.address.slice(2)}`)).toThrow('PATH_LENGTH')
+      expect(() => decodePath(path_0_1.slice(0, -2))).toThrow('PATH_LENGTH')
+      expect(() => decodePath(`${path_0_1}000bb8`)).toThrow('PATH_LENGTH')
+    })
+
+    it('throws for unknown fees', () => {
+      expect(() =>
+        decodePath('0x0000000000000000000000000000000000000001000bb90000000000000000000000000000000000000002')
+      ).toThrow('FEE')
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import { getAddress } from '@ethersproject/address'
+import { pack } from '@ethersproject/solidity'
+import invariant from 'tiny-invariant'
+import { FeeAmount } from '../constants'
+import { Route } from '../entities/route'
+
+// the number of hex characters taken up by each element of a path
+const ADDRESS_LENGTH = 40
+const FEE_LENGTH = 6
+
+/**
+ * Returns the packed path of token addresses and fees through the route, in the order the tokens are swapped
+ * @param route the route to encode
+ * @param exactOutput whether the path is for an exact output swap, which is encoded from the output to the input
+ */
+export function encodeRouteToPath(route: Route, exactOutput: boolean): string {
+  const types: string[] = ['address']
+  const values: (string | number)[] = [route.tokenPath[0].address]
+  for (const [i, pool] of route.pools.entries()) {
+    types.push('uint24', 'address')
+    values.push(pool.feeLevel, route.tokenPath[i + 1].address)
+  }
+  return exactOutput ? pack(types.reverse(), values.reverse()) : pack(types, values)
+}
+
+/**
+ * Returns the checksummed token addresses and the fees of the pools in a packed path, in the order they are encoded
+ * @param path the hex encoded path, i.e. a token address followed by a fee and token address for each pool
+ */
+export function decodePath(path: string): { tokens: string[]; fees: FeeAmount[] } {
+  invariant(/^0x[0-9a-fA-F]*$/.test(path), 'HEX')
+  const data = path.slice(2)
+  invariant(
+    data.length >= ADDRESS_LENGTH * 2 + FEE_LENGTH &&
+      (data.length - ADDRESS_LENGTH) % (ADDRESS_LENGTH + FEE_LENGTH) === 0,
+    'PATH_LENGTH'
+  )
+
+  const tokens: string[] = [getAddress(`0x${data.slice(0, ADDRESS_LENGTH)}`)]
+  const fees: FeeAmount[] = []
+  for (let i = ADDRESS_LENGTH; i < data.length; i += FEE_LENGTH + ADDRESS_LENGTH) {
+    const fee: number = parseInt(data.slice(i, i + FEE_LENGTH), 16)
+    invariant(FeeAmount[fee] !== undefined, 'FEE')
+    fees.push(fee)
+    tokens.push(getAddress(`0x${data.slice(i + FEE_LENGTH, i + FEE_LENGTH + ADDRESS_LENGTH)}`))
+  }
+  return { tokens, fees }
+}
@@ -0,0 +1,34 @@
+import { MaxUint256 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { ONE, Q128, ZERO } from '../constants'
+import PositionLibrary from './positionLibrary'
+
+describe('PositionLibrary', () => {
+  describe('#getTokensOwed', () => {
+    it('returns 0 for 0 liquidity', () => {
+      expect(PositionLibrary.getTokensOwed(ZERO, ZERO, ZERO, Q128, Q128)).toEqual([ZERO, ZERO])
+    })
+
+    it('returns 0 if fee growth inside has not changed', () => {
+      expect(PositionLibrary.getTokensOwed(Q128, Q128, JSBI.BigInt(100), Q128, Q128)).toEqual([ZERO, ZERO])
+    })
+
+    it('returns the fee growth since the last update times the liquidity', () => {
+      expect(
+        PositionLibrary.getTokensOwed(
+          ZERO,
+          Q128,
+          JSBI.BigInt(100),
+          JSBI.multiply(Q128, JSBI.BigInt(3)),
+          JSBI.multiply(Q128, JSBI.BigInt(2))
+        )
+      ).toEqual([JSBI.BigInt(300), JSBI.BigInt(100)])
+    })
+
+    it('handles the fee growth inside wrapping around', () => {
+      expect(
+        PositionLibrary.getTokensOwed(MaxUint256, MaxUint256, JSBI.BigInt(100), JSBI.subtract(Q128, ONE), ZERO)
+      ).toEqual([JSBI.BigInt(100), ZERO])
+    })
+  })
+})
@@ -0,0 +1,38 @@
+import JSBI from 'jsbi'
+import { MaxUint128, Q128 } from '../constants'
+import FullMath from './fullMath'
+import { subIn256 } from './tickLibrary'
+
+export default abstract class PositionLibrary {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Returns the fees owed to a position since its fee growth was last recorded, matching Position#update in the core
+   * contracts. Like the contracts, the amounts wrap around if they overflow a uint128.
+   * @param feeGrowthInside0LastX128 the fee growth inside the range in token0 when the position was last updated
+   * @param feeGrowthInside1LastX128 the fee growth inside the range in token1 when the position was last updated
+   * @param liquidity the liquidity of the position
+   * @param feeGrowthInside0X128 the current fee growth inside the range in token0
+   * @param feeGrowthInside1X128 the current fee growth inside the range in token1
+   */
+  public static getTokensOwed(
+    feeGrowthInside0LastX128: JSBI,
+    feeGrowthInside1LastX128: JSBI,
+    liquidity: JSBI,
+    feeGrowthInside0X128: JSBI,
+    feeGrowthInside1X128: JSBI
+  ): [JSBI, JSBI] {
+    const tokensOwed0 = JSBI.bitwiseAnd(
+      FullMath.mulDiv(subIn256(feeGrowthInside0X128, feeGrowthInside0LastX128), liquidity, Q128),
+      MaxUint128
+    )
+    const tokensOwed1 = JSBI.bitwiseAnd(
+      FullMath.mulDiv(subIn256(feeGrowthInside1X128, feeGrowthInside1LastX128), liquidity, Q128),
+      MaxUint128
+    )
+    return [tokensOwed0, tokensOwed1]
+  }
+}
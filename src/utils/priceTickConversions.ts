@@ -2,10 +2,9 @@ import { Price, Token } from '@uniswap/sdk-core'
 import JSBI from 'jsbi'
 import Decimal from 'decimal.js-light'
 import invariant from 'tiny-invariant'
+import { Q192 } from '../constants'
 import TickMath from './tickMath'
 
-const SQUARED_PRICE_DENOMINATOR = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(192))
-
 /**
  * Returns a price object corresponding to the input tick and the base/quote token
  * Inputs must be tokens because the address order is used to interpret the price represented by the tick
@@ -19,8 +18,8 @@ export function tickToPrice(baseToken: Token, quoteToken: Token, tick: number):
   const ratioX192 = JSBI.multiply(sqrtRatioX96, sqrtRatioX96)
 
   return baseToken.sortsBefore(quoteToken)
-    ? new Price(baseToken, quoteToken, SQUARED_PRICE_DENOMINATOR, ratioX192)
-    : new Price(baseToken, quoteToken, ratioX192, SQUARED_PRICE_DENOMINATOR)
+    ? new Price(baseToken, quoteToken, Q192, ratioX192)
+    : new Price(baseToken, quoteToken, ratioX192, Q192)
 }
 
 /**
@@ -0,0 +1,44 @@
+import { ChainId, CurrencyAmount, ETHER, Percent, Token, TokenAmount, TradeType } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { currencyAmount, maximumAmountIn, minimumAmountOut } from './slippage'
+
+describe('slippage', () => {
+  const token = new Token(ChainId.MAINNET, '0x0000000000000000000000000000000000000001', 18, 't0')
+  const exactIn = {
+    tradeType: TradeType.EXACT_INPUT,
+    inputAmount: new TokenAmount(token, 100),
+    outputAmount: CurrencyAmount.ether(100)
+  }
+  const exactOut = { ...exactIn, tradeType: TradeType.EXACT_OUTPUT }
+
+  describe('#currencyAmount', () => {
+    it('returns a token amount for a token and an ether amount for ether', () => {
+      expect(currencyAmount(token, JSBI.BigInt(1))).toEqual(new TokenAmount(token, 1))
+      expect(currencyAmount(ETHER, JSBI.BigInt(1))).toEqual(CurrencyAmount.ether(1))
+    })
+  })
+
+  describe('#minimumAmountOut', () => {
+    it('cuts the output amount of an exact input trade', () => {
+      expect(minimumAmountOut(exactIn, new Percent(5, 100))).toEqual(CurrencyAmount.ether(95))
+    })
+    it('returns the output amount of an exact output trade', () => {
+      expect(minimumAmountOut(exactOut, new Percent(5, 100))).toEqual(exactOut.outputAmount)
+    })
+    it('throws for a negative tolerance', () => {
+      expect(() => minimumAmountOut(exactIn, new Percent(-1, 100))).toThrow('SLIPPAGE_TOLERANCE')
+    })
+  })
+
+  describe('#maximumAmountIn', () => {
+    it('increases the input amount of an exact output trade', () => {
+      expect(maximumAmountIn(exactOut, new Percent(5, 100))).toEqual(new TokenAmount(token, 105))
+    })
+    it('returns the input amount of an exact input trade', () => {
+      expect(maximumAmountIn(exactIn, new Percent(5, 100))).toEqual(exactIn.inputAmount)
+    })
+    it('throws for a negative tolerance', () => {
+      expect(() => maximumAmountIn(exactOut, new Percent(-1, 100))).toThrow('SLIPPAGE_TOLERANCE')
+    })
+  })
+})
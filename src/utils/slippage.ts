@@ -0,0 +1,55 @@
+import { Currency, CurrencyAmount, ETHER, Fraction, Percent, Token, TokenAmount, TradeType } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { ONE, ZERO } from '../constants'
+
+// minimal interface so the slippage adjusted amounts may be shared across trade types
+interface SlippageAdjustable {
+  readonly tradeType: TradeType
+  readonly inputAmount: CurrencyAmount
+  readonly outputAmount: CurrencyAmount
+}
+
+/**
+ * Returns the amount of the currency, i.e. a token amount for a token and an ether amount for ether
+ * @param currency the currency of the amount
+ * @param raw the raw amount
+ */
+export function currencyAmount(currency: Currency, raw: JSBI): CurrencyAmount {
+  if (currency instanceof Token) return new TokenAmount(currency, raw)
+  if (currency === ETHER) return CurrencyAmount.ether(raw)
+  invariant(false, 'CURRENCY')
+}
+
+/**
+ * Get the minimum amount that must be received from the trade for the given slippage tolerance
+ * @param trade the trade
+ * @param slippageTolerance tolerance of unfavorable slippage from the execution price of the trade
+ */
+export function minimumAmountOut(trade: SlippageAdjustable, slippageTolerance: Percent): CurrencyAmount {
+  invariant(!slippageTolerance.lessThan(ZERO), 'SLIPPAGE_TOLERANCE')
+  if (trade.tradeType === TradeType.EXACT_OUTPUT) {
+    return trade.outputAmount
+  } else {
+    const slippageAdjustedAmountOut = new Fraction(ONE)
+      .add(slippageTolerance)
+      .invert()
+      .multiply(trade.outputAmount.raw).quotient
+    return currencyAmount(trade.outputAmount.currency, slippageAdjustedAmountOut)
+  }
+}
+
+/**
+ * Get the maximum amount in that can be spent via the trade for the given slippage tolerance
+ * @param trade the trade
+ * @param slippageTolerance tolerance of unfavorable slippage from the execution price of the trade
+ */
+export function maximumAmountIn(trade: SlippageAdjustable, slippageTolerance: Percent): CurrencyAmount {
+  invariant(!slippageTolerance.lessThan(ZERO), 'SLIPPAGE_TOLERANCE')
+  if (trade.tradeType === TradeType.EXACT_INPUT) {
+    return trade.inputAmount
+  } else {
+    const slippageAdjustedAmountIn = new Fraction(ONE).add(slippageTolerance).multiply(trade.inputAmount.raw).quotient
+    return currencyAmount(trade.inputAmount.currency, slippageAdjustedAmountIn)
+  }
+}
@@ -0,0 +1,31 @@
+import { MaxUint256 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import sqrt from './sqrt'
+
+describe('#sqrt', () => {
+  it('correct for 0-1000', () => {
+    for (let i = 0; i < 1000; i++) {
+      expect(sqrt(JSBI.BigInt(i))).toEqual(JSBI.BigInt(Math.floor(Math.sqrt(i))))
+    }
+  })
+
+  it('correct for all even powers of 2', () => {
+    for (let i = 0; i < 128; i++) {
+      const root = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(i))
+      expect(sqrt(JSBI.multiply(root, root))).toEqual(root)
+    }
+  })
+
+  it('rounds down', () => {
+    const root = JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(100))
+    expect(sqrt(JSBI.subtract(JSBI.multiply(root, root), JSBI.BigInt(1)))).toEqual(JSBI.subtract(root, JSBI.BigInt(1)))
+  })
+
+  it('correct for MaxUint256', () => {
+    expect(sqrt(MaxUint256)).toEqual(JSBI.BigInt('340282366920938463463374607431768211455'))
+  })
+
+  it('throws for negative values', () => {
+    expect(() => sqrt(JSBI.BigInt(-1))).toThrow('NEGATIVE')
+  })
+})
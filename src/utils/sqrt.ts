@@ -0,0 +1,25 @@
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { ONE, ZERO } from '../constants'
+
+const TWO = JSBI.BigInt(2)
+const THREE = JSBI.BigInt(3)
+
+/**
+ * Computes the floor of the square root of the value, using the babylonian method
+ * @param value the value to take the square root of
+ */
+export default function sqrt(value: JSBI): JSBI {
+  invariant(JSBI.greaterThanOrEqual(value, ZERO), 'NEGATIVE')
+
+  if (JSBI.lessThanOrEqual(value, THREE)) {
+    return JSBI.equal(value, ZERO) ? ZERO : ONE
+  }
+  let z = value
+  let x = JSBI.add(JSBI.divide(value, TWO), ONE)
+  while (JSBI.lessThan(x, z)) {
+    z = x
+    x = JSBI.divide(JSBI.add(JSBI.divide(value, x), x), TWO)
+  }
+  return z
+}
@@ -0,0 +1,132 @@
+import { MaxUint256 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { ONE, Q96, ZERO } from '../constants'
+import SqrtPriceMath from './sqrtPriceMath'
+
+const ONE_ETHER = JSBI.exponentiate(JSBI.BigInt(10), JSBI.BigInt(18))
+// sqrt(1.21) * 2^96, i.e. the sqrt price for a price of 1.21
+const SQRT_PRICE_1_21 = JSBI.BigInt('87150978765690771352898345369')
+
+describe('SqrtPriceMath', () => {
+  describe('#getNextSqrtPriceFromInput', () => {
+    it('fails if price is zero', () => {
+      expect(() =>
+        SqrtPriceMath.getNextSqrtPriceFromInput(ZERO, ZERO, JSBI.divide(ONE_ETHER, JSBI.BigInt(10)), false)
+      ).toThrow('SQRT_PRICE')
+    })
+
+    it('fails if liquidity is zero', () => {
+      expect(() =>
+        SqrtPriceMath.getNextSqrtPriceFromInput(ONE, ZERO, JSBI.divide(ONE_ETHER, JSBI.BigInt(10)), true)
+      ).toThrow('LIQUIDITY')
+    })
+
+    it('fails if input amount overflows the price', () => {
+      const price = JSBI.subtract(JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(160)), ONE)
+      expect(() => SqrtPriceMath.getNextSqrtPriceFromInput(price, JSBI.BigInt(1024), JSBI.BigInt(1024), false)).toThrow(
+        'UINT160'
+      )
+    })
+
+    it('returns input price if amount in is zero', () => {
+      expect(SqrtPriceMath.getNextSqrtPriceFromInput(Q96, ONE_ETHER, ZERO, true)).toEqual(Q96)
+      expect(SqrtPriceMath.getNextSqrtPriceFromInput(Q96, ONE_ETHER, ZERO, false)).toEqual(Q96)
+    })
+
+    it('input amount of 0.1 token1', () => {
+      expect(
+        SqrtPriceMath.getNextSqrtPriceFromInput(Q96, ONE_ETHER, JSBI.divide(ONE_ETHER, JSBI.BigInt(10)), false)
+      ).toEqual(JSBI.BigInt('87150978765690771352898345369'))
+    })
+
+    it('input amount of 0.1 token0', () => {
+      expect(
+        SqrtPriceMath.getNextSqrtPriceFromInput(Q96, ONE_ETHER, JSBI.divide(ONE_ETHER, JSBI.BigInt(10)), true)
+      ).toEqual(JSBI.BigInt('72025602285694852357767227579'))
+    })
+
+    it('amount in greater than uint96 max and zero for one', () => {
+      expect(
+        SqrtPriceMath.getNextSqrtPriceFromInput(
+          Q96,
+          JSBI.multiply(ONE_ETHER, JSBI.BigInt(10)),
+          JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(100)),
+          true
+        )
+      ).toEqual(JSBI.BigInt('624999999995069620'))
+    })
+
+    it('can return 1 with enough amount in and zero for one', () => {
+      expect(SqrtPriceMath.getNextSqrtPriceFromInput(Q96, ONE, JSBI.divide(MaxUint256, JSBI.BigInt(2)), true)).toEqual(
+        ONE
+      )
+    })
+  })
+
+  describe('#getNextSqrtPriceFromOutput', () => {
+    const price = JSBI.BigInt('20282409603651670423947251286016')
+    const liquidity = JSBI.BigInt(1024)
+
+    it('fails if output amount is exactly the virtual reserves of token0', () => {
+      expect(() => SqrtPriceMath.getNextSqrtPriceFromOutput(price, liquidity, JSBI.BigInt(4), false)).toThrow('PRODUCT')
+    })
+
+    it('fails if output amount is greater than virtual reserves of token0', () => {
+      expect(() => SqrtPriceMath.getNextSqrtPriceFromOutput(price, liquidity, JSBI.BigInt(5), false)).toThrow('PRODUCT')
+    })
+
+    it('fails if output amount is exactly the virtual reserves of token1', () => {
+      expect(() => SqrtPriceMath.getNextSqrtPriceFromOutput(price, liquidity, JSBI.BigInt(262144), true)).toThrow(
+        'QUOTIENT'
+      )
+    })
+
+    it('succeeds if output amount is just less than the virtual reserves of token1', () => {
+      expect(SqrtPriceMath.getNextSqrtPriceFromOutput(price, liquidity, JSBI.BigInt(262143), true)).toEqual(
+        JSBI.BigInt('77371252455336267181195264')
+      )
+    })
+
+    it('output amount of 0.1 token1', () => {
+      expect(
+        SqrtPriceMath.getNextSqrtPriceFromOutput(Q96, ONE_ETHER, JSBI.divide(ONE_ETHER, JSBI.BigInt(10)), true)
+      ).toEqual(JSBI.BigInt('71305346262837903834189555302'))
+    })
+
+    it('output amount of 0.1 token0', () => {
+      expect(
+        SqrtPriceMath.getNextSqrtPriceFromOutput(Q96, ONE_ETHER, JSBI.divide(ONE_ETHER, JSBI.BigInt(10)), false)
+      ).toEqual(JSBI.BigInt('88031291682515930659493278152'))
+    })
+  })
+
+  describe('#getAmount0Delta', () => {
+    it('returns 0 if liquidity is 0', () => {
+      expect(SqrtPriceMath.getAmount0Delta(Q96, SQRT_PRICE_1_21, ZERO, true)).toEqual(ZERO)
+    })
+
+    it('returns 0 if prices are equal', () => {
+      expect(SqrtPriceMath.getAmount0Delta(Q96, Q96, ONE_ETHER, true)).toEqual(ZERO)
+    })
+
+    it('returns 0.1 amount1 for price of 1 to 1.21', () => {
+      const amount0 = SqrtPriceMath.getAmount0Delta(Q96, SQRT_PRICE_1_21, ONE_ETHER, true)
+      expect(amount0).toEqual(JSBI.BigInt('90909090909090910'))
+      const amount0RoundedDown = SqrtPriceMath.getAmount0Delta(Q96, SQRT_PRICE_1_21, ONE_ETHER, false)
+      expect(amount0RoundedDown).toEqual(JSBI.subtract(amount0, ONE))
+    })
+  })
+
+  describe('#getAmount1Delta', () => {
+    it('returns 0 if liquidity is 0', () => {
+      expect(SqrtPriceMath.getAmount1Delta(Q96, SQRT_PRICE_1_21, ZERO, true)).toEqual(ZERO)
+    })
+
+    it('returns 0.1 amount1 for price of 1 to 1.21', () => {
+      const amount1 = SqrtPriceMath.getAmount1Delta(Q96, SQRT_PRICE_1_21, ONE_ETHER, true)
+      expect(amount1).toEqual(JSBI.BigInt('100000000000000000'))
+      const amount1RoundedDown = SqrtPriceMath.getAmount1Delta(Q96, SQRT_PRICE_1_21, ONE_ETHER, false)
+      expect(amount1RoundedDown).toEqual(JSBI.subtract(amount1, ONE))
+    })
+  })
+})
@@ -0,0 +1,141 @@
+import { MaxUint256 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import invariant from 'tiny-invariant'
+import { MaxUint128, MaxUint160, Q96, ZERO } from '../constants'
+import FullMath from './fullMath'
+import UnsafeMath from './unsafeMath'
+
+function toUint160(x: JSBI): JSBI {
+  invariant(JSBI.lessThanOrEqual(x, MaxUint160), 'UINT160')
+  return x
+}
+
+export default abstract class SqrtPriceMath {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Returns the amount of token0 between two prices, i.e. liquidity / sqrt(lower) - liquidity / sqrt(upper)
+   * @param sqrtRatioAX96 a sqrt price
+   * @param sqrtRatioBX96 another sqrt price
+   * @param liquidity the amount of usable liquidity
+   * @param roundUp whether to round the amount up or down
+   */
+  public static getAmount0Delta(sqrtRatioAX96: JSBI, sqrtRatioBX96: JSBI, liquidity: JSBI, roundUp: boolean): JSBI {
+    if (JSBI.greaterThan(sqrtRatioAX96, sqrtRatioBX96)) {
+      ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+    }
+    invariant(JSBI.greaterThan(sqrtRatioAX96, ZERO), 'SQRT_PRICE')
+    invariant(JSBI.lessThanOrEqual(sqrtRatioBX96, MaxUint160), 'UINT160')
+    invariant(JSBI.lessThanOrEqual(liquidity, MaxUint128), 'LIQUIDITY')
+
+    const numerator1 = JSBI.leftShift(liquidity, JSBI.BigInt(96))
+    const numerator2 = JSBI.subtract(sqrtRatioBX96, sqrtRatioAX96)
+
+    return roundUp
+      ? UnsafeMath.divRoundingUp(FullMath.mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+      : JSBI.divide(FullMath.mulDiv(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+  }
+
+  /**
+   * Returns the amount of token1 between two prices, i.e. liquidity * (sqrt(upper) - sqrt(lower))
+   * @param sqrtRatioAX96 a sqrt price
+   * @param sqrtRatioBX96 another sqrt price
+   * @param liquidity the amount of usable liquidity
+   * @param roundUp whether to round the amount up or down
+   */
+  public static getAmount1Delta(sqrtRatioAX96: JSBI, sqrtRatioBX96: JSBI, liquidity: JSBI, roundUp: boolean): JSBI {
+    if (JSBI.greaterThan(sqrtRatioAX96, sqrtRatioBX96)) {
+      ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+    }
+    invariant(JSBI.lessThanOrEqual(sqrtRatioBX96, MaxUint160), 'UINT160')
+    invariant(JSBI.lessThanOrEqual(liquidity, MaxUint128), 'LIQUIDITY')
+
+    return roundUp
+      ? FullMath.mulDivRoundingUp(liquidity, JSBI.subtract(sqrtRatioBX96, sqrtRatioAX96), Q96)
+      : FullMath.mulDiv(liquidity, JSBI.subtract(sqrtRatioBX96, sqrtRatioAX96), Q96)
+  }
+
+  /**
+   * Returns the next sqrt price given an input amount of token0 or token1, rounding such that the price never moves
+   * further than the input amount warrants
+   * @param sqrtPX96 the starting price
+   * @param liquidity the amount of usable liquidity
+   * @param amountIn how much of token0, or token1, is being swapped in
+   * @param zeroForOne whether the amount in is token0 or token1
+   */
+  public static getNextSqrtPriceFromInput(sqrtPX96: JSBI, liquidity: JSBI, amountIn: JSBI, zeroForOne: boolean): JSBI {
+    invariant(JSBI.greaterThan(sqrtPX96, ZERO), 'SQRT_PRICE')
+    invariant(JSBI.greaterThan(liquidity, ZERO), 'LIQUIDITY')
+
+    return zeroForOne
+      ? SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+      : SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true)
+  }
+
+  /**
+   * Returns the next sqrt price given an output amount of token0 or token1, rounding such that the price always moves
+   * at least as far as the output amount requires
+   * @param sqrtPX96 the starting price
+   * @param liquidity the amount of usable liquidity
+   * @param amountOut how much of token0, or token1, is being swapped out
+   * @param zeroForOne whether the amount out is token1 or token0
+   */
+  public static getNextSqrtPriceFromOutput(
+    sqrtPX96: JSBI,
+    liquidity: JSBI,
+    amountOut: JSBI,
+    zeroForOne: boolean
+  ): JSBI {
+    invariant(JSBI.greaterThan(sqrtPX96, ZERO), 'SQRT_PRICE')
+    invariant(JSBI.greaterThan(liquidity, ZERO), 'LIQUIDITY')
+
+    return zeroForOne
+      ? SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountOut, false)
+      : SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountOut, false)
+  }
+
+  private static getNextSqrtPriceFromAmount0RoundingUp(
+    sqrtPX96: JSBI,
+    liquidity: JSBI,
+    amount: JSBI,
+    add: boolean
+  ): JSBI {
+    if (JSBI.equal(amount, ZERO)) return sqrtPX96
+    const numerator1 = JSBI.leftShift(liquidity, JSBI.BigInt(96))
+    const product = JSBI.multiply(amount, sqrtPX96)
+
+    if (add) {
+      const denominator = JSBI.add(numerator1, product)
+      // the contract only takes the precise path if neither the product nor the denominator overflow a uint256
+      if (JSBI.lessThanOrEqual(product, MaxUint256) && JSBI.lessThanOrEqual(denominator, MaxUint256)) {
+        return FullMath.mulDivRoundingUp(numerator1, sqrtPX96, denominator)
+      }
+      const fallbackDenominator = JSBI.add(JSBI.divide(numerator1, sqrtPX96), amount)
+      invariant(JSBI.lessThanOrEqual(fallbackDenominator, MaxUint256), 'UINT256')
+      return UnsafeMath.divRoundingUp(numerator1, fallbackDenominator)
+    } else {
+      invariant(JSBI.lessThanOrEqual(product, MaxUint256) && JSBI.greaterThan(numerator1, product), 'PRODUCT')
+      return toUint160(FullMath.mulDivRoundingUp(numerator1, sqrtPX96, JSBI.subtract(numerator1, product)))
+    }
+  }
+
+  private static getNextSqrtPriceFromAmount1RoundingDown(
+    sqrtPX96: JSBI,
+    liquidity: JSBI,
+    amount: JSBI,
+    add: boolean
+  ): JSBI {
+    invariant(JSBI.lessThanOrEqual(amount, MaxUint256), 'UINT256')
+
+    if (add) {
+      return toUint160(JSBI.add(sqrtPX96, FullMath.mulDiv(amount, Q96, liquidity)))
+    } else {
+      const quotient = FullMath.mulDivRoundingUp(amount, Q96, liquidity)
+      invariant(JSBI.greaterThan(sqrtPX96, quotient), 'QUOTIENT')
+      return JSBI.subtract(sqrtPX96, quotient)
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import JSBI from 'jsbi'
+import { Q96 } from '../constants'
+import SwapMath from './swapMath'
+
+const ONE_ETHER = JSBI.exponentiate(JSBI.BigInt(10), JSBI.BigInt(18))
+
+describe('SwapMath', () => {
+  describe('#computeSwapStep', () => {
+    // sqrt price of 1.01
+    const priceTarget = JSBI.BigInt('79623317895830914510639640423')
+    const liquidity = JSBI.multiply(ONE_ETHER, JSBI.BigInt(2))
+
+    it('exact amount in that gets capped at price target in one for zero', () => {
+      const [sqrtQ, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(
+        Q96,
+        priceTarget,
+        liquidity,
+        ONE_ETHER,
+        600
+      )
+      expect(amountIn).toEqual(JSBI.BigInt('9975124224178055'))
+      expect(feeAmount).toEqual(JSBI.BigInt('5988667735148'))
+      expect(amountOut).toEqual(JSBI.BigInt('9925619580021728'))
+      expect(sqrtQ).toEqual(priceTarget)
+    })
+
+    it('exact amount out that gets capped at price target in one for zero', () => {
+      const [sqrtQ, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(
+        Q96,
+        priceTarget,
+        liquidity,
+        JSBI.multiply(ONE_ETHER, JSBI.BigInt(-1)),
+        600
+      )
+      expect(amountIn).toEqual(JSBI.BigInt('9975124224178055'))
+      expect(feeAmount).toEqual(JSBI.BigInt('5988667735148'))
+      expect(amountOut).toEqual(JSBI.BigInt('9925619580021728'))
+      expect(sqrtQ).toEqual(priceTarget)
+    })
+
+    it('exact amount in that is fully spent in one for zero', () => {
+      // sqrt price of 10
+      const target = JSBI.BigInt('250541448375047931186413801569')
+      const [sqrtQ, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(Q96, target, liquidity, ONE_ETHER, 600)
+      expect(amountIn).toEqual(JSBI.BigInt('999400000000000000'))
+      expect(feeAmount).toEqual(JSBI.BigInt('600000000000000'))
+      expect(amountOut).toEqual(JSBI.BigInt('666399946655997866'))
+      expect(JSBI.lessThan(sqrtQ, target)).toBe(true)
+    })
+
+    it('exact amount out that is fully received in one for zero', () => {
+      // sqrt price of 100
+      const target = JSBI.BigInt('792281625142643375935439503360')
+      const [sqrtQ, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(
+        Q96,
+        target,
+        liquidity,
+        JSBI.multiply(ONE_ETHER, JSBI.BigInt(-1)),
+        600
+      )
+      expect(amountIn).toEqual(JSBI.BigInt('2000000000000000000'))
+      expect(feeAmount).toEqual(JSBI.BigInt('1200720432259356'))
+      expect(amountOut).toEqual(ONE_ETHER)
+      expect(JSBI.lessThan(sqrtQ, target)).toBe(true)
+    })
+
+    it('amount out is capped at the desired amount out', () => {
+      const [sqrtQ, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(
+        JSBI.BigInt('417332158212080721273783715441582'),
+        JSBI.BigInt('1452870262520218020823638996'),
+        JSBI.BigInt('159344665391607089467575320103'),
+        JSBI.BigInt('-1'),
+        1
+      )
+      expect(amountIn).toEqual(JSBI.BigInt('1'))
+      expect(feeAmount).toEqual(JSBI.BigInt('1'))
+      expect(amountOut).toEqual(JSBI.BigInt('1'))
+      expect(sqrtQ).toEqual(JSBI.BigInt('417332158212080721273783715441581'))
+    })
+
+    it('entire input amount taken as fee', () => {
+      const [sqrtQ, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(
+        JSBI.BigInt('2413'),
+        JSBI.BigInt('79887613182836312'),
+        JSBI.BigInt('1985041575832132834610021537970'),
+        JSBI.BigInt('10'),
+        1872
+      )
+      expect(amountIn).toEqual(JSBI.BigInt('0'))
+      expect(feeAmount).toEqual(JSBI.BigInt('10'))
+      expect(amountOut).toEqual(JSBI.BigInt('0'))
+      expect(sqrtQ).toEqual(JSBI.BigInt('2413'))
+    })
+
+    it('handles intermediate insufficient liquidity in zero for one exact output case', () => {
+      const sqrtP = JSBI.BigInt('20282409603651670423947251286016')
+      const sqrtPTarget = JSBI.divide(JSBI.multiply(sqrtP, JSBI.BigInt(11)), JSBI.BigInt(10))
+      const [sqrtQ, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(
+        sqrtP,
+        sqrtPTarget,
+        JSBI.BigInt('1024'),
+        JSBI.BigInt('-4'),
+        3000
+      )
+      expect(amountOut).toEqual(JSBI.BigInt('0'))
+      expect(sqrtQ).toEqual(sqrtPTarget)
+      expect(amountIn).toEqual(JSBI.BigInt('26215'))
+      expect(feeAmount).toEqual(JSBI.BigInt('79'))
+    })
+
+    it('handles intermediate insufficient liquidity in one for zero exact output case', () => {
+      const sqrtP = JSBI.BigInt('20282409603651670423947251286016')
+      const sqrtPTarget = JSBI.divide(JSBI.multiply(sqrtP, JSBI.BigInt(9)), JSBI.BigInt(10))
+      const [sqrtQ, amountIn, amountOut, feeAmount] = SwapMath.computeSwapStep(
+        sqrtP,
+        sqrtPTarget,
+        JSBI.BigInt('1024'),
+        JSBI.BigInt('-263000'),
+        3000
+      )
+      expect(amountOut).toEqual(JSBI.BigInt('26214'))
+      expect(sqrtQ).toEqual(sqrtPTarget)
+      expect(amountIn).toEqual(JSBI.BigInt('1'))
+      expect(feeAmount).toEqual(JSBI.BigInt('1'))
+    })
+  })
+})
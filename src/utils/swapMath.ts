@@ -0,0 +1,88 @@
+import JSBI from 'jsbi'
+import { FeeAmount, NEGATIVE_ONE, ZERO } from '../constants'
+import FullMath from './fullMath'
+import SqrtPriceMath from './sqrtPriceMath'
+
+const MAX_FEE = JSBI.exponentiate(JSBI.BigInt(10), JSBI.BigInt(6))
+
+export default abstract class SwapMath {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Computes the result of swapping some amount in, or amount out, within a single tick range, i.e. a single step of
+   * the swap loop. Returns the sqrt price after the step, the amount in (excluding the fee), the amount out and the
+   * fee amount.
+   * @param sqrtRatioCurrentX96 the current sqrt price of the pool
+   * @param sqrtRatioTargetX96 the price that cannot be exceeded, from which the direction of the swap is inferred
+   * @param liquidity the usable liquidity
+   * @param amountRemaining how much input or output amount is remaining to be swapped in/out, negative for exact output
+   * @param feePips the fee taken from the input amount, expressed in hundredths of a bip
+   */
+  public static computeSwapStep(
+    sqrtRatioCurrentX96: JSBI,
+    sqrtRatioTargetX96: JSBI,
+    liquidity: JSBI,
+    amountRemaining: JSBI,
+    feePips: FeeAmount
+  ): [JSBI, JSBI, JSBI, JSBI] {
+    const zeroForOne = JSBI.greaterThanOrEqual(sqrtRatioCurrentX96, sqrtRatioTargetX96)
+    const exactIn = JSBI.greaterThanOrEqual(amountRemaining, ZERO)
+    const fee = JSBI.BigInt(feePips)
+
+    let sqrtRatioNextX96: JSBI
+    let amountIn: JSBI | undefined
+    let amountOut: JSBI | undefined
+    if (exactIn) {
+      const amountRemainingLessFee = FullMath.mulDiv(amountRemaining, JSBI.subtract(MAX_FEE, fee), MAX_FEE)
+      amountIn = zeroForOne
+        ? SqrtPriceMath.getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+        : SqrtPriceMath.getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true)
+      sqrtRatioNextX96 = JSBI.greaterThanOrEqual(amountRemainingLessFee, amountIn)
+        ? sqrtRatioTargetX96
+        : SqrtPriceMath.getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne)
+    } else {
+      amountOut = zeroForOne
+        ? SqrtPriceMath.getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+        : SqrtPriceMath.getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false)
+      sqrtRatioNextX96 = JSBI.greaterThanOrEqual(JSBI.multiply(amountRemaining, NEGATIVE_ONE), amountOut)
+        ? sqrtRatioTargetX96
+        : SqrtPriceMath.getNextSqrtPriceFromOutput(
+            sqrtRatioCurrentX96,
+            liquidity,
+            JSBI.multiply(amountRemaining, NEGATIVE_ONE),
+            zeroForOne
+          )
+    }
+
+    const max = JSBI.equal(sqrtRatioTargetX96, sqrtRatioNextX96)
+
+    // get the input/output amounts, reusing the ones computed above if the target was reached
+    if (zeroForOne) {
+      if (!(max && exactIn))
+        amountIn = SqrtPriceMath.getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true)
+      if (!(max && !exactIn))
+        amountOut = SqrtPriceMath.getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false)
+    } else {
+      if (!(max && exactIn))
+        amountIn = SqrtPriceMath.getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true)
+      if (!(max && !exactIn))
+        amountOut = SqrtPriceMath.getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false)
+    }
+
+    // cap the output amount to not exceed the remaining output amount
+    if (!exactIn && JSBI.greaterThan(amountOut!, JSBI.multiply(amountRemaining, NEGATIVE_ONE))) {
+      amountOut = JSBI.multiply(amountRemaining, NEGATIVE_ONE)
+    }
+
+    // if we didn't reach the target, the remainder of the input is taken as the fee
+    const feeAmount =
+      exactIn && JSBI.notEqual(sqrtRatioNextX96, sqrtRatioTargetX96)
+        ? JSBI.subtract(amountRemaining, amountIn!)
+        : FullMath.mulDivRoundingUp(amountIn!, fee, JSBI.subtract(MAX_FEE, fee))
+
+    return [sqrtRatioNextX96, amountIn!, amountOut!, feeAmount]
+  }
+}
@@ -0,0 +1,88 @@
+import { MaxUint256 } from '@uniswap/sdk-core'
+import JSBI from 'jsbi'
+import { ZERO } from '../constants'
+import TickLibrary, { subIn256 } from './tickLibrary'
+
+describe('TickLibrary', () => {
+  describe('#subIn256', () => {
+    it('subtracts without underflow', () => {
+      expect(subIn256(JSBI.BigInt(15), JSBI.BigInt(3))).toEqual(JSBI.BigInt(12))
+    })
+
+    it('wraps around on underflow', () => {
+      expect(subIn256(ZERO, JSBI.BigInt(1))).toEqual(MaxUint256)
+    })
+  })
+
+  describe('#getFeeGrowthInside', () => {
+    const uninitialized = { feeGrowthOutside0X128: ZERO, feeGrowthOutside1X128: ZERO }
+    const feeGrowthGlobal = JSBI.BigInt(15)
+
+    it('returns 0 for two uninitialized ticks if the global fee growth is 0', () => {
+      expect(TickLibrary.getFeeGrowthInside(uninitialized, uninitialized, -2, 2, 0, ZERO, ZERO)).toEqual([ZERO, ZERO])
+    })
+
+    it('returns all for two uninitialized ticks if tick is inside', () => {
+      expect(
+        TickLibrary.getFeeGrowthInside(uninitialized, uninitialized, -2, 2, 0, feeGrowthGlobal, feeGrowthGlobal)
+      ).toEqual([feeGrowthGlobal, feeGrowthGlobal])
+    })
+
+    it('returns 0 for two uninitialized ticks if tick is above', () => {
+      expect(
+        TickLibrary.getFeeGrowthInside(uninitialized, uninitialized, -2, 2, 4, feeGrowthGlobal, feeGrowthGlobal)
+      ).toEqual([ZERO, ZERO])
+    })
+
+    it('returns 0 for two uninitialized ticks if tick is below', () => {
+      expect(
+        TickLibrary.getFeeGrowthInside(uninitialized, uninitialized, -2, 2, -4, feeGrowthGlobal, feeGrowthGlobal)
+      ).toEqual([ZERO, ZERO])
+    })
+
+    it('subtracts upper tick if below', () => {
+      expect(
+        TickLibrary.getFeeGrowthInside(
+          uninitialized,
+          { feeGrowthOutside0X128: JSBI.BigInt(2), feeGrowthOutside1X128: JSBI.BigInt(3) },
+          -2,
+          2,
+          0,
+          feeGrowthGlobal,
+          feeGrowthGlobal
+        )
+      ).toEqual([JSBI.BigInt(13), JSBI.BigInt(12)])
+    })
+
+    it('subtracts lower tick if above', () => {
+      expect(
+        TickLibrary.getFeeGrowthInside(
+          { feeGrowthOutside0X128: JSBI.BigInt(2), feeGrowthOutside1X128: JSBI.BigInt(3) },
+          uninitialized,
+          -2,
+          2,
+          0,
+          feeGrowthGlobal,
+          feeGrowthGlobal
+        )
+      ).toEqual([JSBI.BigInt(13), JSBI.BigInt(12)])
+    })
+
+    it('works correctly with overflow on inside tick', () => {
+      expect(
+        TickLibrary.getFeeGrowthInside(
+          {
+            feeGrowthOutside0X128: JSBI.subtract(MaxUint256, JSBI.BigInt(3)),
+            feeGrowthOutside1X128: JSBI.subtract(MaxUint256, JSBI.BigInt(2))
+          },
+          { feeGrowthOutside0X128: JSBI.BigInt(3), feeGrowthOutside1X128: JSBI.BigInt(5) },
+          -2,
+          2,
+          0,
+          feeGrowthGlobal,
+          feeGrowthGlobal
+        )
+      ).toEqual([JSBI.BigInt(16), JSBI.BigInt(13)])
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import JSBI from 'jsbi'
+import { ONE, Q256 } from '../constants'
+
+interface FeeGrowthOutside {
+  feeGrowthOutside0X128: JSBI
+  feeGrowthOutside1X128: JSBI
+}
+
+/**
+ * Subtracts two uint256 values the way the contracts do, i.e. wrapping around on underflow
+ * @param x the minuend
+ * @param y the subtrahend
+ */
+export function subIn256(x: JSBI, y: JSBI): JSBI {
+  return JSBI.bitwiseAnd(JSBI.add(JSBI.subtract(x, y), Q256), JSBI.subtract(Q256, ONE))
+}
+
+export default abstract class TickLibrary {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Returns the all-time fee growth per unit of liquidity inside a tick range, matching Tick#getFeeGrowthInside in
+   * the core contracts. The values are only meaningful relative to an earlier snapshot of the same range.
+   * @param feeGrowthOutsideLower the fee growth outside the lower tick
+   * @param feeGrowthOutsideUpper the fee growth outside the upper tick
+   * @param tickLower the lower tick of the range
+   * @param tickUpper the upper tick of the range
+   * @param tickCurrent the current tick of the pool
+   * @param feeGrowthGlobal0X128 the all-time global fee growth of the pool in token0
+   * @param feeGrowthGlobal1X128 the all-time global fee growth of the pool in token1
+   */
+  public static getFeeGrowthInside(
+    feeGrowthOutsideLower: FeeGrowthOutside,
+    feeGrowthOutsideUpper: FeeGrowthOutside,
+    tickLower: number,
+    tickUpper: number,
+    tickCurrent: number,
+    feeGrowthGlobal0X128: JSBI,
+    feeGrowthGlobal1X128: JSBI
+  ): [JSBI, JSBI] {
+    let feeGrowthBelow0X128: JSBI
+    let feeGrowthBelow1X128: JSBI
+    if (tickCurrent >= tickLower) {
+      feeGrowthBelow0X128 = feeGrowthOutsideLower.feeGrowthOutside0X128
+      feeGrowthBelow1X128 = feeGrowthOutsideLower.feeGrowthOutside1X128
+    } else {
+      feeGrowthBelow0X128 = subIn256(feeGrowthGlobal0X128, feeGrowthOutsideLower.feeGrowthOutside0X128)
+      feeGrowthBelow1X128 = subIn256(feeGrowthGlobal1X128, feeGrowthOutsideLower.feeGrowthOutside1X128)
+    }
+
+    let feeGrowthAbove0X128: JSBI
+    let feeGrowthAbove1X128: JSBI
+    if (tickCurrent < tickUpper) {
+      feeGrowthAbove0X128 = feeGrowthOutsideUpper.feeGrowthOutside0X128
+      feeGrowthAbove1X128 = feeGrowthOutsideUpper.feeGrowthOutside1X128
+    } else {
+      feeGrowthAbove0X128 = subIn256(feeGrowthGlobal0X128, feeGrowthOutsideUpper.feeGrowthOutside0X128)
+      feeGrowthAbove1X128 = subIn256(feeGrowthGlobal1X128, feeGrowthOutsideUpper.feeGrowthOutside1X128)
+    }
+
+    return [
+      subIn256(subIn256(feeGrowthGlobal0X128, feeGrowthBelow0X128), feeGrowthAbove0X128),
+      subIn256(subIn256(feeGrowthGlobal1X128, feeGrowthBelow1X128), feeGrowthAbove1X128)
+    ]
+  }
+}
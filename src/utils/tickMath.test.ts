@@ -20,6 +20,9 @@ describe('TickMath', () => {
     it('returns the correct value for max tick', () => {
       expect(TickMath.getSqrtRatioAtTick(TickMath.MAX_TICK)).toEqual(TickMath.MAX_SQRT_RATIO)
     })
+    it('does not round up exact ratios', () => {
+      expect(TickMath.getSqrtRatioAtTick(0)).toEqual(JSBI.exponentiate(JSBI.BigInt(2), JSBI.BigInt(96)))
+    })
   })
   describe('#getTickAtSqrtRatio', () => {
     it('returns the correct value for sqrt ratio at min tick', () => {
@@ -53,7 +53,7 @@ export default abstract class TickMath {
     if (tick > 0) ratio = JSBI.divide(MaxUint256, ratio)
 
     // back to Q96
-    return JSBI.greaterThanOrEqual(JSBI.remainder(ratio, Q32), ZERO)
+    return JSBI.greaterThan(JSBI.remainder(ratio, Q32), ZERO)
       ? JSBI.add(JSBI.divide(ratio, Q32), ONE)
       : JSBI.divide(ratio, Q32)
   }
@@ -0,0 +1,19 @@
+import JSBI from 'jsbi'
+import { ZERO } from '../constants'
+import UnsafeMath from './unsafeMath'
+
+describe('UnsafeMath', () => {
+  describe('#divRoundingUp', () => {
+    it('returns 0 for a zero dividend', () => {
+      expect(UnsafeMath.divRoundingUp(ZERO, JSBI.BigInt(3))).toEqual(ZERO)
+    })
+
+    it('rounds up inexact results', () => {
+      expect(UnsafeMath.divRoundingUp(JSBI.BigInt(7), JSBI.BigInt(2))).toEqual(JSBI.BigInt(4))
+    })
+
+    it('does not round up exact results', () => {
+      expect(UnsafeMath.divRoundingUp(JSBI.BigInt(8), JSBI.BigInt(2))).toEqual(JSBI.BigInt(4))
+    })
+  })
+})
@@ -0,0 +1,20 @@
+import JSBI from 'jsbi'
+import { ONE, ZERO } from '../constants'
+
+export default abstract class UnsafeMath {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {}
+
+  /**
+   * Returns ceil(x / y). Like the contract, does not check for a zero divisor or for overflow, so the caller must
+   * ensure the inputs are valid.
+   * @param x the dividend
+   * @param y the divisor
+   */
+  public static divRoundingUp(x: JSBI, y: JSBI): JSBI {
+    const result = JSBI.divide(x, y)
+    return JSBI.greaterThan(JSBI.remainder(x, y), ZERO) ? JSBI.add(result, ONE) : result
+  }
+}
@@ -0,0 +1,36 @@
+import invariant from 'tiny-invariant'
+import { FeeAmount, TICK_SPACINGS } from '../constants'
+import TickMath from './tickMath'
+
+/**
+ * Returns the closest tick that is nearest a given tick and usable for the given tick spacing
+ * @param tick the target tick
+ * @param tickSpacing the spacing of the pool
+ */
+export function nearestUsableTick(tick: number, tickSpacing: number): number {
+  invariant(Number.isInteger(tick) && Number.isInteger(tickSpacing), 'INTEGERS')
+  invariant(tickSpacing > 0, 'TICK_SPACING')
+  invariant(tick >= TickMath.MIN_TICK && tick <= TickMath.MAX_TICK, 'TICK_BOUND')
+  const rounded = Math.round(tick / tickSpacing) * tickSpacing
+  if (rounded < TickMath.MIN_TICK) return rounded + tickSpacing
+  else if (rounded > TickMath.MAX_TICK) return rounded - tickSpacing
+  else return rounded
+}
+
+/**
+ * Returns the smallest tick that can be used as a position boundary in a pool of the given fee tier
+ * @param fee the fee tier of the pool
+ */
+export function minUsableTick(fee: FeeAmount): number {
+  const tickSpacing = TICK_SPACINGS[fee]
+  return Math.ceil(TickMath.MIN_TICK / tickSpacing) * tickSpacing
+}
+
+/**
+ * Returns the largest tick that can be used as a position boundary in a pool of the given fee tier
+ * @param fee the fee tier of the pool
+ */
+export function maxUsableTick(fee: FeeAmount): number {
+  const tickSpacing = TICK_SPACINGS[fee]
+  return Math.floor(TickMath.MAX_TICK / tickSpacing) * tickSpacing
+}